@@ -2,41 +2,150 @@
 
 import * as core from '@actions/core';
 import { writeFileSync } from 'fs';
-import { validateEnvironment } from '../safe/config';
-import { ErrorCode, SafeTransactionError } from '../safe/errors';
+import * as os from 'os';
+import * as path from 'path';
+import {
+    formatChain,
+    getChain,
+    getExplorerTransactionUrl,
+    getSafeQueueUrl,
+    getSafeTransactionUrl,
+} from '../safe/chains';
+import {
+    NetworkConfig,
+    resolveSetting,
+    selectNetwork,
+    setExplicitSettings,
+    validateEnvironment,
+} from '../safe/config';
+import { formatDoctorReport, runDoctorChecks } from '../safe/doctor';
+import {
+    ConfigurationError,
+    ErrorCode,
+    SafeTransactionError,
+    ValidationError,
+} from '../safe/errors';
 import { logger } from '../safe/logger';
-import { SafeManager } from '../safe/safe-manager';
-import { TransactionExecutor } from '../safe/transaction-executor';
-import { getChainIdFromRpc } from '../safe/utils';
+import {
+    ExecutionResult,
+    NonceStrategy,
+    parseNonceStrategy,
+    RejectionResult,
+    SafeManager,
+    WaitForExecutionOptions,
+} from '../safe/safe-manager';
+import {
+    PlannedTransaction,
+    ProposalResult,
+    TransactionExecutor,
+} from '../safe/transaction-executor';
+import { getChainIdFromRpc, parseSafeTxHashes } from '../safe/utils';
+import { Validator } from '../safe/validation';
+import { buildProposalReport } from './proposal-report';
+import {
+    buildPullRequestComment,
+    getPullRequestNumber,
+    ProposalConfirmations,
+    upsertPullRequestComment,
+} from './pull-request-comment';
+
+type ActionMode =
+    | 'propose'
+    | 'list-pending'
+    | 'confirm'
+    | 'execute'
+    | 'wait-for-execution'
+    | 'reject'
+    | 'doctor';
 
 interface ActionInputs {
+    network: string;
     safeAddress: string;
     rpcUrl: string;
     proposerPrivateKey: string;
+    proposerKeystore: string;
+    proposerKeystorePassword: string;
+    proposerMnemonic: string;
+    proposerDerivationPath: string;
+    remoteSignerUrl: string;
+    proposerAddress: string;
     safeApiKey: string;
+    txServiceUrl: string;
     foundryScriptPath: string;
     foundryScriptArgs: string;
-    actionMode: 'propose' | 'list-pending';
+    actionMode: ActionMode;
+    safeTxHashes: string[];
     dryRun: boolean;
+    batchMode: boolean;
+    allowRevert: boolean;
+    simulate: boolean;
+    policy: string;
+    nonceStrategy: NonceStrategy;
+    nonce: string;
+    deleteProposals: boolean;
+    githubToken: string;
+    pullRequestComment: boolean;
+    waitOptions: WaitForExecutionOptions;
 }
 
 class GitHubActionRunner {
-    private inputs: ActionInputs;
-
-    constructor() {
-        this.inputs = this.parseInputs();
-    }
+    // Parsed at the start of run(), so that invalid inputs fail the step with their message
+    private inputs!: ActionInputs;
 
     private parseInputs(): ActionInputs {
         return {
-            safeAddress: core.getInput('safe-address', { required: true }),
-            rpcUrl: core.getInput('rpc-url', { required: true }),
-            proposerPrivateKey: core.getInput('proposer-private-key', { required: true }),
+            ...this.parseNetworkInputs(),
+            proposerPrivateKey: core.getInput('proposer-private-key'),
+            proposerKeystore: core.getInput('proposer-keystore'),
+            proposerKeystorePassword: core.getInput('proposer-keystore-password'),
+            proposerMnemonic: core.getInput('proposer-mnemonic'),
+            proposerDerivationPath: core.getInput('proposer-derivation-path'),
+            remoteSignerUrl: core.getInput('remote-signer-url'),
+            proposerAddress: core.getInput('proposer-address'),
             safeApiKey: core.getInput('safe-api-key'),
-            foundryScriptPath: core.getInput('foundry-script-path', { required: true }),
             foundryScriptArgs: core.getInput('foundry-script-args') || '',
-            actionMode: (core.getInput('action-mode') as 'propose' | 'list-pending') || 'propose',
+            actionMode: (core.getInput('action-mode') as ActionMode) || 'propose',
+            safeTxHashes: parseSafeTxHashes(core.getInput('safe-tx-hashes')),
             dryRun: core.getBooleanInput('dry-run') || false,
+            batchMode: getBooleanInputOrDefault('batch-mode', true),
+            allowRevert: core.getBooleanInput('allow-revert') || false,
+            simulate: getBooleanInputOrDefault('simulate', true),
+            policy: core.getInput('policy'),
+            nonceStrategy: parseNonceStrategy(
+                core.getInput('nonce-mode') || undefined,
+                core.getInput('nonce') || undefined,
+            ),
+            nonce: core.getInput('nonce'),
+            deleteProposals: core.getBooleanInput('delete-proposals') || false,
+            waitOptions: parseWaitOptions(),
+            githubToken: core.getInput('github-token'),
+            pullRequestComment: getBooleanInputOrDefault('pr-comment', true),
+        };
+    }
+
+    /**
+     * Inputs left empty default to the settings of the project configuration's network
+     */
+    private parseNetworkInputs(): Pick<
+        ActionInputs,
+        'network' | 'safeAddress' | 'rpcUrl' | 'txServiceUrl' | 'foundryScriptPath'
+    > {
+        const network = core.getInput('network');
+        const networkConfig: Partial<NetworkConfig> = network ? selectNetwork(network) : {};
+        setExplicitSettings({
+            rpcUrl: core.getInput('rpc-url'),
+            safeAddress: core.getInput('safe-address'),
+            txServiceUrl: core.getInput('tx-service-url'),
+        });
+
+        // Resolved as the Safe configuration is, so that Forge and the Safe use the same RPC
+        return {
+            network,
+            safeAddress: getSettingOrRequire('safeAddress', 'safe-address', networkConfig.chainId),
+            rpcUrl: getSettingOrRequire('rpcUrl', 'rpc-url', networkConfig.chainId),
+            txServiceUrl: resolveSetting('txServiceUrl', networkConfig.chainId) || '',
+            foundryScriptPath:
+                core.getInput('foundry-script-path') || networkConfig.defaultScript || '',
         };
     }
 
@@ -47,18 +156,34 @@ SAFE_ADDRESS=${this.inputs.safeAddress}
 RPC_URL=${this.inputs.rpcUrl}
 PROPOSER_PRIVATE_KEY=${this.inputs.proposerPrivateKey}
 SAFE_API_KEY=${this.inputs.safeApiKey}
+SAFE_TX_SERVICE_URL=${this.inputs.txServiceUrl}
         `.trim();
 
         // Write environment configuration to a temporary file
         writeFileSync('.env.safe', envConfig);
 
-        // Set environment variables for the process
-        process.env.SAFE_ADDRESS = this.inputs.safeAddress;
-        process.env.RPC_URL = this.inputs.rpcUrl;
+        // Set environment variables for the process; the RPC, Safe and Transaction Service
+        // inputs are explicit settings, which RPC_URL_<chainId> and the like must not override
         process.env.PROPOSER_PRIVATE_KEY = this.inputs.proposerPrivateKey;
         process.env.SAFE_API_KEY = this.inputs.safeApiKey;
 
+        // Other proposer signer backends are only passed through the process environment
+        const signerEnv: Record<string, string> = {
+            PROPOSER_KEYSTORE: this.inputs.proposerKeystore,
+            PROPOSER_PASSWORD: this.inputs.proposerKeystorePassword,
+            PROPOSER_MNEMONIC: this.inputs.proposerMnemonic,
+            PROPOSER_DERIVATION_PATH: this.inputs.proposerDerivationPath,
+            PROPOSER_REMOTE_SIGNER_URL: this.inputs.remoteSignerUrl,
+            PROPOSER_ADDRESS: this.inputs.proposerAddress,
+        };
+        for (const [name, value] of Object.entries(signerEnv)) {
+            if (value) {
+                process.env[name] = value;
+            }
+        }
+
         logger.info('Environment configured for GitHub Action', {
+            network: this.inputs.network || undefined,
             safeAddress: this.inputs.safeAddress,
             actionMode: this.inputs.actionMode,
             dryRun: this.inputs.dryRun,
@@ -71,7 +196,8 @@ SAFE_API_KEY=${this.inputs.safeApiKey}
 
             // Validate chain ID matches network
             const chainId = await getChainIdFromRpc(this.inputs.rpcUrl);
-            logger.info('Validated RPC connection', { chainId });
+            logger.info('Validated RPC connection', { chainId, chain: formatChain(chainId) });
+            this.setChainOutputs(chainId);
         } catch (error) {
             const message = error instanceof Error ? error.message : 'Unknown validation error';
             core.setFailed(`Input validation failed: ${message}`);
@@ -79,6 +205,15 @@ SAFE_API_KEY=${this.inputs.safeApiKey}
         }
     }
 
+    /**
+     * Describe the Safe's chain from the chain registry
+     */
+    private setChainOutputs(chainId: string): void {
+        core.setOutput('chain-id', chainId);
+        core.setOutput('chain-name', getChain(chainId)?.name ?? '');
+        core.setOutput('safe-url', getSafeQueueUrl(chainId, this.inputs.safeAddress) ?? '');
+    }
+
     private async executeAction(): Promise<void> {
         switch (this.inputs.actionMode) {
             case 'propose':
@@ -87,6 +222,21 @@ SAFE_API_KEY=${this.inputs.safeApiKey}
             case 'list-pending':
                 await this.listPendingTransactions();
                 break;
+            case 'confirm':
+                await this.confirmTransactions();
+                break;
+            case 'execute':
+                await this.executeReadyTransactions();
+                break;
+            case 'wait-for-execution':
+                await this.waitForExecution();
+                break;
+            case 'reject':
+                await this.rejectTransactions();
+                break;
+            case 'doctor':
+                await this.runDoctor();
+                break;
             default:
                 throw new SafeTransactionError(
                     `Invalid action mode: ${String(this.inputs.actionMode)}`,
@@ -99,9 +249,21 @@ SAFE_API_KEY=${this.inputs.safeApiKey}
         logger.info('Starting transaction proposal', {
             scriptPath: this.inputs.foundryScriptPath,
             dryRun: this.inputs.dryRun,
+            batchMode: this.inputs.batchMode,
         });
 
-        const executor = await TransactionExecutor.create();
+        if (!this.inputs.foundryScriptPath) {
+            throw new SafeTransactionError(
+                'foundry-script-path is required in propose mode',
+                ErrorCode.INVALID_CONFIGURATION,
+            );
+        }
+
+        const executor = await TransactionExecutor.create({
+            allowRevert: this.inputs.allowRevert,
+            simulate: this.inputs.simulate,
+            nonceStrategy: this.inputs.nonceStrategy,
+        });
 
         try {
             // Configure execution parameters based on inputs
@@ -110,14 +272,63 @@ SAFE_API_KEY=${this.inputs.safeApiKey}
                 rpcUrl: this.inputs.rpcUrl,
                 forgeScript: this.inputs.foundryScriptPath,
                 forgeOptions: this.inputs.foundryScriptArgs,
+                batchMode: this.inputs.batchMode,
+                policy: this.inputs.policy || undefined,
             };
 
-            const transactionHashes = await executor.executeFromScript(executionConfig);
+            const proposals = await executor.executeFromScript(executionConfig);
+            const transactionHashes = proposals.map((proposal) => proposal.safeTxHash);
+            await this.writeProposalReport(proposals, executor.getDryRunTransactions());
+            await this.commentOnPullRequest(proposals, executor.getDryRunTransactions());
 
             // Set action outputs
             if (transactionHashes && transactionHashes.length > 0) {
                 core.setOutput('transaction-hash', transactionHashes[0]);
                 core.setOutput('transaction-hashes', JSON.stringify(transactionHashes));
+                core.setOutput(
+                    'transaction-nonces',
+                    JSON.stringify(proposals.map((proposal) => proposal.nonce)),
+                );
+                core.setOutput(
+                    'transaction-urls',
+                    JSON.stringify(
+                        proposals.map(
+                            (p) =>
+                                getSafeTransactionUrl(p.chainId, p.safeAddress, p.safeTxHash) ??
+                                null,
+                        ),
+                    ),
+                );
+                core.setOutput(
+                    'new-transaction-hashes',
+                    JSON.stringify(
+                        proposals.filter((p) => p.status === 'proposed').map((p) => p.safeTxHash),
+                    ),
+                );
+                core.setOutput(
+                    'existing-transaction-hashes',
+                    JSON.stringify(
+                        proposals.filter((p) => p.status === 'existing').map((p) => p.safeTxHash),
+                    ),
+                );
+                core.setOutput(
+                    'proposals-by-chain',
+                    JSON.stringify(
+                        proposals.reduce<Record<string, ProposalResult[]>>((byChain, proposal) => {
+                            (byChain[proposal.chainId] ??= []).push(proposal);
+                            return byChain;
+                        }, {}),
+                    ),
+                );
+                core.setOutput(
+                    'simulation-results',
+                    JSON.stringify(
+                        transactionHashes.map((safeTxHash) => ({
+                            safeTxHash,
+                            ...executor.getSimulationResult(safeTxHash),
+                        })),
+                    ),
+                );
             }
 
             core.setOutput('status', 'success');
@@ -130,6 +341,65 @@ SAFE_API_KEY=${this.inputs.safeApiKey}
         } catch (error) {
             core.setOutput('status', 'failed');
             throw error;
+        } finally {
+            executor.dispose();
+        }
+    }
+
+    /**
+     * Publish the Markdown proposal report as the job summary and as a file for later steps
+     */
+    private async writeProposalReport(
+        proposals: ProposalResult[],
+        dryRunTransactions: PlannedTransaction[],
+    ): Promise<void> {
+        const report = buildProposalReport(proposals, dryRunTransactions, {
+            scriptPath: this.inputs.foundryScriptPath,
+            dryRun: this.inputs.dryRun,
+        });
+
+        const reportPath = path.join(process.env.RUNNER_TEMP || os.tmpdir(), 'safe-proposals.md');
+        writeFileSync(reportPath, report);
+        core.setOutput('report-path', reportPath);
+
+        // core.summary needs the summary file of a GitHub Actions runner
+        if (process.env.GITHUB_STEP_SUMMARY) {
+            await core.summary.addRaw(report, true).write();
+        }
+    }
+
+    /**
+     * Keep a single comment on the triggering pull request up to date with what will be signed
+     *
+     * A failure to comment (e.g. a token without write access on forks) only logs a warning.
+     */
+    private async commentOnPullRequest(
+        proposals: ProposalResult[],
+        dryRunTransactions: PlannedTransaction[],
+    ): Promise<void> {
+        const pullRequestNumber = getPullRequestNumber();
+        if (!pullRequestNumber || !this.inputs.pullRequestComment || !this.inputs.githubToken) {
+            return;
+        }
+
+        try {
+            const body = buildPullRequestComment(
+                proposals,
+                await getConfirmations(proposals),
+                dryRunTransactions,
+                { scriptPath: this.inputs.foundryScriptPath, dryRun: this.inputs.dryRun },
+            );
+            const commentUrl = await upsertPullRequestComment(
+                this.inputs.githubToken,
+                pullRequestNumber,
+                body,
+            );
+            core.setOutput('pr-comment-url', commentUrl);
+            logger.info('Updated pull request comment', { pullRequestNumber, commentUrl });
+        } catch (error) {
+            core.warning(
+                `Could not comment on pull request #${pullRequestNumber}: ${(error as Error).message}`,
+            );
         }
     }
 
@@ -138,30 +408,192 @@ SAFE_API_KEY=${this.inputs.safeApiKey}
 
         try {
             const safeManager = await SafeManager.create();
-            const pendingTxs = await safeManager.getPendingTransactions();
+            const results = [];
+            for await (const transaction of safeManager.iteratePendingTransactions()) {
+                results.push(transaction);
+            }
 
-            // Output pending transactions as JSON
+            // Output pending transactions as JSON, every page in a single listing
+            const pendingTxs = { count: results.length, next: null, previous: null, results };
             core.setOutput('pending-transactions', JSON.stringify(pendingTxs, null, 2));
             core.setOutput('status', 'success');
 
-            logger.info('Listed pending transactions', {
-                count: pendingTxs.results?.length || 0,
-                next: pendingTxs.next,
-                previous: pendingTxs.previous,
-            });
+            logger.info('Listed pending transactions', { count: results.length });
         } catch (error) {
             core.setOutput('status', 'failed');
             throw error;
         }
     }
 
+    private requireSafeTxHashes(): string[] {
+        const { safeTxHashes, actionMode } = this.inputs;
+        if (safeTxHashes.length === 0) {
+            throw new SafeTransactionError(
+                `safe-tx-hashes is required in ${actionMode} mode`,
+                ErrorCode.INVALID_CONFIGURATION,
+            );
+        }
+        safeTxHashes.forEach((hash) => Validator.validateHexString(hash, 'safeTxHash', 64));
+        return safeTxHashes;
+    }
+
+    private async confirmTransactions(): Promise<void> {
+        const safeTxHashes = this.requireSafeTxHashes();
+
+        logger.info('Confirming transactions', { safeTxHashes });
+
+        try {
+            const safeManager = await SafeManager.create();
+            const results = [];
+            for (const safeTxHash of safeTxHashes) {
+                results.push(await safeManager.confirmTransaction(safeTxHash));
+            }
+
+            core.setOutput('confirmed-transactions', JSON.stringify(results));
+            core.setOutput('transaction-hashes', JSON.stringify(safeTxHashes));
+            core.setOutput(
+                'transaction-urls',
+                JSON.stringify(getTransactionUrls(safeManager, safeTxHashes)),
+            );
+            core.setOutput('transaction-count', results.length.toString());
+            core.setOutput('status', 'success');
+
+            logger.info('Confirmed transactions', { results });
+        } catch (error) {
+            core.setOutput('status', 'failed');
+            throw error;
+        }
+    }
+
+    private async executeReadyTransactions(): Promise<void> {
+        try {
+            const safeManager = await SafeManager.create();
+            const allReady = this.inputs.safeTxHashes.join() === 'all-ready';
+            const safeTxHashes = allReady
+                ? (await safeManager.getReadyTransactions()).map((tx) => tx.safeTxHash)
+                : this.requireSafeTxHashes();
+
+            logger.info('Executing transactions', { safeTxHashes, allReady });
+
+            const results = [];
+            for (const safeTxHash of safeTxHashes) {
+                const result = await safeManager.executeTransaction(safeTxHash);
+                results.push(result);
+                if (result.status === 'reverted') {
+                    break;
+                }
+            }
+
+            setExecutionOutputs(safeManager, results);
+            logger.info('Executed transactions', { results });
+        } catch (error) {
+            core.setOutput('status', 'failed');
+            throw error;
+        }
+    }
+
+    private async waitForExecution(): Promise<void> {
+        const safeTxHashes = this.requireSafeTxHashes();
+
+        logger.info('Waiting for execution', { safeTxHashes, ...this.inputs.waitOptions });
+
+        try {
+            const safeManager = await SafeManager.create({ simulate: false });
+            const results = await safeManager.waitForExecution(
+                safeTxHashes,
+                this.inputs.waitOptions,
+            );
+
+            setExecutionOutputs(safeManager, results);
+            logger.info('Transactions executed', { results });
+        } catch (error) {
+            core.setOutput('status', 'failed');
+            throw error;
+        }
+    }
+
+    private async rejectTransactions(): Promise<void> {
+        try {
+            const safeManager = await SafeManager.create({ simulate: false });
+
+            if (this.inputs.deleteProposals) {
+                const safeTxHashes = this.requireSafeTxHashes();
+                for (const safeTxHash of safeTxHashes) {
+                    await safeManager.deleteTransaction(safeTxHash);
+                }
+
+                core.setOutput('deleted-transactions', JSON.stringify(safeTxHashes));
+                core.setOutput('transaction-count', safeTxHashes.length.toString());
+                core.setOutput('status', 'success');
+
+                logger.info('Deleted proposals', { safeTxHashes });
+                return;
+            }
+
+            const results: RejectionResult[] = [];
+            if (this.inputs.safeTxHashes.length === 0 && /^\d+$/.test(this.inputs.nonce)) {
+                results.push(await safeManager.rejectNonce(Number(this.inputs.nonce)));
+            } else {
+                for (const safeTxHash of this.requireSafeTxHashes()) {
+                    results.push(await safeManager.rejectTransaction(safeTxHash));
+                }
+            }
+
+            core.setOutput('rejection-transactions', JSON.stringify(results));
+            core.setOutput(
+                'transaction-hashes',
+                JSON.stringify(results.map((result) => result.safeTxHash)),
+            );
+            core.setOutput(
+                'transaction-urls',
+                JSON.stringify(
+                    getTransactionUrls(
+                        safeManager,
+                        results.map((result) => result.safeTxHash),
+                    ),
+                ),
+            );
+            core.setOutput(
+                'transaction-nonces',
+                JSON.stringify(results.map((result) => result.nonce)),
+            );
+            core.setOutput('transaction-count', results.length.toString());
+            core.setOutput('status', 'success');
+
+            logger.info('Proposed rejections', { results });
+        } catch (error) {
+            core.setOutput('status', 'failed');
+            throw error;
+        }
+    }
+
+    private async runDoctor(): Promise<void> {
+        const checks = await runDoctorChecks();
+        formatDoctorReport(checks).forEach((line) => core.info(line));
+
+        const failures = checks.filter((check) => check.status === 'fail');
+        core.setOutput('doctor-report', JSON.stringify(checks));
+        core.setOutput('status', failures.length > 0 ? 'failed' : 'success');
+
+        if (failures.length > 0) {
+            throw new ConfigurationError(
+                `Doctor found ${failures.length} failing check(s): ${failures.map((check) => check.name).join(', ')}`,
+                { failures },
+            );
+        }
+    }
+
     async run(): Promise<void> {
         try {
             core.info('🚀 Starting Safe Multisig Transaction Proposer Action');
 
-            // Setup environment and validate inputs
+            // Parse, setup environment and validate inputs
+            this.inputs = this.parseInputs();
             this.setupEnvironment();
-            await this.validateInputs();
+            // Doctor diagnoses the very setup that validation would reject
+            if (this.inputs.actionMode !== 'doctor') {
+                await this.validateInputs();
+            }
 
             // Execute the requested action
             await this.executeAction();
@@ -182,6 +614,132 @@ SAFE_API_KEY=${this.inputs.safeApiKey}
 }
 
 // Execute the action
+/**
+ * Safe{Wallet} links of transactions of the manager's Safe, null on chains without Safe{Wallet}
+ */
+function getTransactionUrls(
+    safeManager: SafeManager,
+    safeTxHashes: string[],
+): Array<string | null> {
+    return safeTxHashes.map(
+        (safeTxHash) =>
+            getSafeTransactionUrl(
+                safeManager.getChainId(),
+                safeManager.getSafeAddress(),
+                safeTxHash,
+            ) ?? null,
+    );
+}
+
+/**
+ * Describe on-chain executions, failing when one of them reverted
+ */
+function setExecutionOutputs(safeManager: SafeManager, results: ExecutionResult[]): void {
+    const reverted = results.some((result) => result.status === 'reverted');
+
+    core.setOutput(
+        'executed-transactions',
+        JSON.stringify(
+            results.map((result) => ({ ...result, success: result.status === 'success' })),
+        ),
+    );
+    core.setOutput(
+        'execution-tx-hashes',
+        JSON.stringify(results.map((result) => result.transactionHash)),
+    );
+    core.setOutput(
+        'execution-tx-urls',
+        JSON.stringify(
+            results.map(
+                (result) =>
+                    getExplorerTransactionUrl(safeManager.getChainId(), result.transactionHash) ??
+                    null,
+            ),
+        ),
+    );
+    core.setOutput('transaction-count', results.length.toString());
+    core.setOutput('status', reverted ? 'failed' : 'success');
+
+    if (reverted) {
+        throw new SafeTransactionError(
+            'Safe transaction execution reverted on-chain',
+            ErrorCode.SAFE_TRANSACTION_FAILED,
+            { results },
+        );
+    }
+}
+
+/**
+ * Polling settings of wait-for-execution mode, given in seconds
+ */
+function parseWaitOptions(): WaitForExecutionOptions {
+    const seconds = (name: string): number | undefined => {
+        const value = core.getInput(name);
+        if (!value) {
+            return undefined;
+        }
+        if (!/^\d+$/.test(value)) {
+            throw new ValidationError(
+                `${name} must be a number of seconds`,
+                ErrorCode.INVALID_CONFIGURATION,
+                { [name]: value },
+            );
+        }
+        return Number(value) * 1000;
+    };
+
+    return {
+        timeoutMs: seconds('wait-timeout'),
+        pollIntervalMs: seconds('poll-interval'),
+    };
+}
+
+/**
+ * Confirmation counts of proposals, read from the Safe Transaction Service of each chain
+ */
+async function getConfirmations(
+    proposals: ProposalResult[],
+): Promise<Map<string, ProposalConfirmations>> {
+    const confirmations = new Map<string, ProposalConfirmations>();
+
+    for (const chainId of new Set(proposals.map((proposal) => proposal.chainId))) {
+        try {
+            const safeManager = await SafeManager.create({ simulate: false, chainId });
+            for (const proposal of proposals.filter((p) => p.chainId === chainId)) {
+                const transaction = await safeManager.getTransaction(proposal.safeTxHash);
+                confirmations.set(proposal.safeTxHash, {
+                    confirmations: transaction.confirmations?.length ?? 0,
+                    confirmationsRequired: transaction.confirmationsRequired,
+                });
+            }
+        } catch (error) {
+            // The comment shows unknown counts rather than not being posted
+            logger.warn('Could not read confirmations', { chainId, error });
+        }
+    }
+
+    return confirmations;
+}
+
+/**
+ * Resolve a Safe setting, requiring its input when neither the environment nor the network
+ * provides it
+ */
+function getSettingOrRequire(
+    field: 'rpcUrl' | 'safeAddress',
+    input: string,
+    chainId?: string,
+): string {
+    return resolveSetting(field, chainId) || core.getInput(input, { required: true });
+}
+
+/**
+ * Read a true/false input, falling back to a default when it is left empty
+ */
+function getBooleanInputOrDefault(name: string, fallback: boolean): boolean {
+    return core.getInput(name) ? core.getBooleanInput(name) : fallback;
+}
+
 if (require.main === module) {
     const runner = new GitHubActionRunner();
     runner.run().catch((error: unknown) => {
@@ -0,0 +1,130 @@
+import { MetaTransactionData } from '@safe-global/types-kit';
+import { formatDecodedCall } from '../safe/calldata-decoder';
+import { formatChain, getChain, getSafeQueueUrl, getSafeTransactionUrl } from '../safe/chains';
+import { PlannedTransaction, ProposalResult } from '../safe/transaction-executor';
+import { formatWeiToEther, truncateData } from '../safe/utils';
+
+/** Where the proposals come from */
+export interface ReportSource {
+    scriptPath: string;
+    dryRun?: boolean;
+}
+
+/**
+ * Render proposals (or the transactions of a dry run) as a Markdown report, one section per Safe
+ * transaction
+ */
+export function buildProposalReport(
+    proposals: ProposalResult[],
+    dryRunTransactions: PlannedTransaction[],
+    source: ReportSource,
+): string {
+    const lines = ['## Safe transaction proposals', '', ...formatReportSource(source), ''];
+    const transactions = source.dryRun ? dryRunTransactions : proposals;
+
+    if (transactions.length === 0) {
+        lines.push(
+            source.dryRun ? '_Dry run: nothing would be proposed._' : '_No transaction proposed._',
+        );
+        return lines.join('\n');
+    }
+
+    if (source.dryRun) {
+        lines.push(`_Dry run: ${transactions.length} transaction(s) would be proposed._`, '');
+    }
+
+    const safes = new Map(transactions.map((t) => [`${t.chainId}:${t.safeAddress}`, t]));
+    for (const { chainId, safeAddress } of safes.values()) {
+        const queueUrl = getSafeQueueUrl(chainId, safeAddress);
+        const safe = queueUrl ? `[\`${safeAddress}\`](${queueUrl})` : `\`${safeAddress}\``;
+        lines.push(`**Safe:** ${safe} on ${formatChain(chainId)}`);
+    }
+    lines.push('');
+
+    if (source.dryRun) {
+        dryRunTransactions.forEach((planned, index) =>
+            lines.push(
+                `### ${index + 1}. Not proposed (dry run)`,
+                '',
+                ...describeTransaction(planned),
+                '',
+            ),
+        );
+    } else {
+        proposals.forEach((proposal, index) =>
+            lines.push(...describeProposal(proposal, index), ''),
+        );
+    }
+    return lines.join('\n');
+}
+
+/**
+ * Header lines naming the script and, on GitHub Actions, the commit the report comes from
+ */
+export function formatReportSource(source: ReportSource): string[] {
+    const { GITHUB_SERVER_URL, GITHUB_REPOSITORY, GITHUB_SHA } = process.env;
+    const lines = [`**Script:** \`${source.scriptPath}\``];
+
+    if (GITHUB_SHA) {
+        const commit = `\`${GITHUB_SHA.slice(0, 7)}\``;
+        lines.push(
+            GITHUB_SERVER_URL && GITHUB_REPOSITORY
+                ? `**Commit:** [${commit}](${GITHUB_SERVER_URL}/${GITHUB_REPOSITORY}/commit/${GITHUB_SHA})`
+                : `**Commit:** ${commit}`,
+        );
+    }
+
+    // Markdown hard line breaks between the lines of the header
+    return lines.map((line, index) => (index < lines.length - 1 ? `${line}  ` : line));
+}
+
+function describeProposal(proposal: ProposalResult, index: number): string[] {
+    const safeUrl = getSafeTransactionUrl(
+        proposal.chainId,
+        proposal.safeAddress,
+        proposal.safeTxHash,
+    );
+
+    return [
+        `### ${index + 1}. Nonce ${proposal.nonce} (${proposal.status === 'existing' ? 'already queued' : 'new'})`,
+        '',
+        `- **Safe Tx Hash:** \`${proposal.safeTxHash}\``,
+        ...describeTransaction(
+            proposal,
+            safeUrl ? `- **Safe{Wallet}:** [Review and sign](${safeUrl})` : undefined,
+        ),
+    ];
+}
+
+/**
+ * Target, value, operation and decoded call of a Safe transaction, with an optional extra detail
+ * line before the call
+ */
+function describeTransaction(planned: PlannedTransaction, detail?: string): string[] {
+    const { transaction, decoded } = planned;
+    const target = decoded?.calls ? 'MultiSend' : decoded?.contractName;
+
+    const lines = [
+        `- **Target:** ${target ? `${target} at ` : ''}\`${transaction.to}\``,
+        `- **Value:** ${formatTransactionValue(transaction, planned.chainId)}`,
+        `- **Operation:** ${Number(transaction.operation) === 1 ? 'delegatecall' : 'call'}`,
+    ];
+    if (detail) {
+        lines.push(detail);
+    }
+
+    const call = decoded
+        ? formatDecodedCall(decoded, '')
+        : [`Data: ${truncateData(transaction.data)}`];
+    lines.push('', '```text', ...call, '```');
+
+    return lines;
+}
+
+/**
+ * Value of a transaction in the native currency of its chain
+ */
+export function formatTransactionValue(transaction: MetaTransactionData, chainId: string): string {
+    const symbol = getChain(chainId)?.nativeCurrency.symbol ?? 'ETH';
+    return `${formatWeiToEther(transaction.value)} ${symbol}`;
+}
@@ -0,0 +1,152 @@
+import * as github from '@actions/github';
+import { DecodedCall } from '../safe/calldata-decoder';
+import { formatChain, getSafeTransactionUrl } from '../safe/chains';
+import { PlannedTransaction, ProposalResult } from '../safe/transaction-executor';
+import { formatReportSource, formatTransactionValue, ReportSource } from './proposal-report';
+
+// Hidden marker identifying the comment to update on later runs
+const COMMENT_MARKER = '<!-- safe-multisig-proposal-status -->';
+
+// Author of comments posted with the workflow's GITHUB_TOKEN
+const GITHUB_ACTIONS_LOGIN = 'github-actions[bot]';
+
+type Octokit = ReturnType<typeof github.getOctokit>;
+
+/** Confirmation count of a proposal, when the Safe Transaction Service could be read */
+export interface ProposalConfirmations {
+    confirmations: number;
+    confirmationsRequired: number;
+}
+
+/**
+ * Number of the pull request that triggered the workflow, if any
+ */
+export function getPullRequestNumber(): number | undefined {
+    return github.context.payload.pull_request?.number;
+}
+
+/**
+ * Create the proposal status comment of the pull request, or update it if a previous run
+ * already posted it with the same token user
+ *
+ * @returns the URL of the comment
+ */
+export async function upsertPullRequestComment(
+    token: string,
+    pullRequestNumber: number,
+    body: string,
+): Promise<string> {
+    const octokit = github.getOctokit(token);
+    const { owner, repo } = github.context.repo;
+    const markedBody = `${COMMENT_MARKER}\n${body}`;
+
+    const comments = await octokit.paginate(octokit.rest.issues.listComments, {
+        owner,
+        repo,
+        issue_number: pullRequestNumber,
+        per_page: 100,
+    });
+    // Anyone can paste the marker into a comment; only update one posted by this action
+    const author = await getCommentAuthor(octokit);
+    const existing = comments.find(
+        (comment) => comment.user?.login === author && comment.body?.includes(COMMENT_MARKER),
+    );
+
+    if (existing) {
+        const { data } = await octokit.rest.issues.updateComment({
+            owner,
+            repo,
+            comment_id: existing.id,
+            body: markedBody,
+        });
+        return data.html_url;
+    }
+
+    const { data } = await octokit.rest.issues.createComment({
+        owner,
+        repo,
+        issue_number: pullRequestNumber,
+        body: markedBody,
+    });
+    return data.html_url;
+}
+
+/**
+ * Login of the token's user. Installation tokens such as GITHUB_TOKEN cannot read it, and post
+ * as github-actions[bot]
+ */
+async function getCommentAuthor(octokit: Octokit): Promise<string> {
+    try {
+        const { data } = await octokit.rest.users.getAuthenticated();
+        return data.login;
+    } catch {
+        return GITHUB_ACTIONS_LOGIN;
+    }
+}
+
+/**
+ * Render the proposals of a run (or the transactions of a dry run) as a compact table
+ */
+export function buildPullRequestComment(
+    proposals: ProposalResult[],
+    confirmations: Map<string, ProposalConfirmations>,
+    dryRunTransactions: PlannedTransaction[],
+    source: ReportSource,
+): string {
+    const lines = ['## Safe multisig proposals', '', ...formatReportSource(source), ''];
+
+    if (source.dryRun) {
+        lines.push(
+            `Dry run: ${dryRunTransactions.length} transaction(s) would be proposed.`,
+            '',
+            '| # | Chain | Target | Call | Value |',
+            '| - | ----- | ------ | ---- | ----- |',
+            ...dryRunTransactions.map(
+                (planned, index) =>
+                    `| ${index + 1} | ${formatChain(planned.chainId)} | \`${planned.transaction.to}\` | ${describeCall(planned.decoded)} | ${formatTransactionValue(planned.transaction, planned.chainId)} |`,
+            ),
+        );
+        return lines.join('\n');
+    }
+
+    if (proposals.length === 0) {
+        lines.push('No transaction proposed.');
+        return lines.join('\n');
+    }
+
+    lines.push(
+        '| # | Chain | Nonce | Safe Tx Hash | Call | Confirmations | Safe{Wallet} |',
+        '| - | ----- | ----- | ------------ | ---- | ------------- | ------------ |',
+        ...proposals.map((proposal, index) => {
+            const status = confirmations.get(proposal.safeTxHash);
+            const count = status ? `${status.confirmations}/${status.confirmationsRequired}` : '?';
+            const url = getSafeTransactionUrl(
+                proposal.chainId,
+                proposal.safeAddress,
+                proposal.safeTxHash,
+            );
+            return `| ${index + 1} | ${formatChain(proposal.chainId)} | ${proposal.nonce} | \`${proposal.safeTxHash}\` | ${describeCall(proposal.decoded)} | ${count} | ${url ? `[Review](${url})` : '-'} |`;
+        }),
+    );
+
+    return lines.join('\n');
+}
+
+function describeCall(decoded?: DecodedCall): string {
+    if (!decoded) {
+        return 'unknown';
+    }
+
+    if (decoded.calls) {
+        const calls = decoded.calls.map((call) =>
+            call.decoded ? shortCall(call.decoded) : `call to \`${call.to}\``,
+        );
+        return `MultiSend: ${calls.join(', ')}`;
+    }
+
+    return shortCall(decoded);
+}
+
+function shortCall(decoded: DecodedCall): string {
+    return `\`${decoded.contractName ? `${decoded.contractName}.` : ''}${decoded.functionName}\``;
+}
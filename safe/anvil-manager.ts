@@ -5,6 +5,8 @@ export interface AnvilConfig {
     port?: number;
     host?: string;
     forkUrl: string;
+    /** Pin the fork to this block instead of the latest one */
+    forkBlockNumber?: number;
     timeout?: number;
     accounts?: number;
     balance?: number;
@@ -49,23 +51,11 @@ export class AnvilManager {
             const port = config.port || 8545;
             const host = config.host || '0.0.0.0';
             const timeout = config.timeout || 30000;
-            const accounts = config.accounts || 10;
             const balance = config.balance || 10000;
 
             logger.info(`Starting Anvil fork from: ${config.forkUrl}`);
 
-            const anvilArgs = [
-                '--fork-url',
-                config.forkUrl,
-                '--host',
-                host,
-                '--port',
-                port.toString(),
-                '--accounts',
-                accounts.toString(),
-                '--balance',
-                balance.toString(),
-            ];
+            const anvilArgs = this.buildForkArgs(config, host, port, balance);
 
             // Add auto-impersonate if we have accounts to unlock
             if (config.unlockAccounts && config.unlockAccounts.length > 0) {
@@ -167,6 +157,33 @@ export class AnvilManager {
         }
     }
 
+    /**
+     * Build the Anvil command line for a fork
+     */
+    private buildForkArgs(
+        config: AnvilConfig,
+        host: string,
+        port: number,
+        balance: number,
+    ): string[] {
+        const args = [
+            '--fork-url',
+            config.forkUrl,
+            '--host',
+            host,
+            '--port',
+            port.toString(),
+            '--accounts',
+            (config.accounts || 10).toString(),
+            '--balance',
+            balance.toString(),
+        ];
+        if (config.forkBlockNumber !== undefined) {
+            args.push('--fork-block-number', config.forkBlockNumber.toString());
+        }
+        return args;
+    }
+
     /**
      * Clean up internal state
      */
@@ -183,6 +200,17 @@ export class AnvilManager {
         return this.isStarted && this.anvilProcess !== null;
     }
 
+    /**
+     * Get the RPC URL of the running Anvil fork
+     */
+    getRpcUrl(): string | null {
+        if (!this.isRunning() || !this.currentConfig) {
+            return null;
+        }
+
+        return AnvilManager.getForgeRpcUrl(this.currentConfig.forkUrl, true, this.currentConfig);
+    }
+
     /**
      * Get the current Anvil process
      */
@@ -0,0 +1,271 @@
+import { ethers } from 'ethers';
+import * as fs from 'fs';
+import * as path from 'path';
+import { CREATE_CALL_ABI } from './create-call';
+import { logger } from './logger';
+import { toChecksumAddress, truncateData } from './utils';
+
+export interface DecodedArgument {
+    name: string;
+    type: string;
+    value: string;
+}
+
+export interface DecodedCall {
+    contractName?: string;
+    functionName: string;
+    signature: string;
+    args: DecodedArgument[];
+    /** Sub-calls when the call is a MultiSend batch */
+    calls?: DecodedSubCall[];
+}
+
+export interface DecodedSubCall {
+    operation: number;
+    to: string;
+    value: string;
+    data: string;
+    decoded?: DecodedCall;
+}
+
+/** Broadcast entry fields used to label contracts and functions */
+export interface BroadcastCallHint {
+    contractName: string | null;
+    contractAddress?: string | null;
+    function?: string | null;
+    transaction: { to?: string | null };
+}
+
+const MULTI_SEND_ABI = ['function multiSend(bytes transactions)'];
+
+/**
+ * Decode Safe transaction calldata using Foundry artifacts and broadcast metadata
+ */
+export class CalldataDecoder {
+    private interfaces = new Map<string, ethers.Interface>();
+    private contractsByAddress = new Map<string, string>();
+    private fragmentsBySelector = new Map<string, ethers.FunctionFragment>();
+    private multiSendInterface = new ethers.Interface(MULTI_SEND_ABI);
+
+    constructor() {
+        // CreateCall deployments are proposed by this tool, so always decode them
+        CREATE_CALL_ABI.forEach((signature) => this.registerFragment(signature));
+    }
+
+    /**
+     * Load the ABIs of every artifact in a Foundry `out/` directory
+     */
+    loadFoundryArtifacts(outDir: string = path.join(process.cwd(), 'out')): void {
+        if (!fs.existsSync(outDir)) {
+            logger.debug('Foundry out directory not found, skipping ABI loading', { outDir });
+            return;
+        }
+
+        for (const sourceDir of fs.readdirSync(outDir)) {
+            const sourcePath = path.join(outDir, sourceDir);
+            if (!fs.statSync(sourcePath).isDirectory()) {
+                continue;
+            }
+
+            for (const artifactFile of fs.readdirSync(sourcePath)) {
+                if (artifactFile.endsWith('.json')) {
+                    this.loadArtifact(path.join(sourcePath, artifactFile));
+                }
+            }
+        }
+
+        logger.debug('Foundry artifacts loaded', {
+            contracts: this.interfaces.size,
+            selectors: this.fragmentsBySelector.size,
+        });
+    }
+
+    /**
+     * Register contract names and function signatures found in broadcast entries
+     */
+    registerBroadcastTransactions(transactions: BroadcastCallHint[]): void {
+        for (const tx of transactions) {
+            const address = tx.transaction.to || tx.contractAddress;
+            if (address && tx.contractName) {
+                this.contractsByAddress.set(address.toLowerCase(), tx.contractName);
+            }
+
+            if (tx.function) {
+                this.registerFragment(`function ${tx.function}`);
+            }
+        }
+    }
+
+    /**
+     * Decode calldata sent to `to`, returning undefined if no matching ABI is known
+     */
+    decode(to: string, data: string): DecodedCall | undefined {
+        if (!data || data === '0x' || data.length < 10) {
+            return undefined;
+        }
+
+        const contractName = this.contractsByAddress.get(to.toLowerCase());
+        const contractInterface = contractName ? this.interfaces.get(contractName) : undefined;
+
+        const description =
+            this.parse(contractInterface, data) ??
+            this.parse(this.multiSendInterface, data) ??
+            this.parseWithSelector(data);
+
+        if (!description) {
+            return undefined;
+        }
+
+        const decoded: DecodedCall = {
+            contractName,
+            functionName: description.name,
+            signature: description.signature,
+            args: description.fragment.inputs.map((input, index) => ({
+                name: input.name || `arg${index}`,
+                type: input.type,
+                value: formatValue(description.args[index]),
+            })),
+        };
+
+        if (description.selector === this.multiSendInterface.getFunction('multiSend')?.selector) {
+            decoded.calls = this.decodeMultiSend(description.args[0] as string);
+        }
+
+        return decoded;
+    }
+
+    /**
+     * Render calldata as readable lines, falling back to the truncated hex data
+     */
+    describe(to: string, data: string, indent: string = '   '): string[] {
+        const decoded = this.decode(to, data);
+        if (!decoded) {
+            return [`${indent}Data: ${truncateData(data)}`];
+        }
+
+        return formatDecodedCall(decoded, indent);
+    }
+
+    private loadArtifact(artifactPath: string): void {
+        try {
+            const artifact = JSON.parse(fs.readFileSync(artifactPath, 'utf8')) as { abi?: unknown };
+            if (!Array.isArray(artifact.abi) || artifact.abi.length === 0) {
+                return;
+            }
+
+            const contractInterface = new ethers.Interface(artifact.abi as ethers.InterfaceAbi);
+            this.interfaces.set(path.basename(artifactPath, '.json'), contractInterface);
+            contractInterface.forEachFunction((fragment) => {
+                if (!this.fragmentsBySelector.has(fragment.selector)) {
+                    this.fragmentsBySelector.set(fragment.selector, fragment);
+                }
+            });
+        } catch (error) {
+            logger.debug('Skipping unreadable artifact', {
+                artifactPath,
+                error: (error as Error).message,
+            });
+        }
+    }
+
+    private registerFragment(signature: string): void {
+        try {
+            const fragment = ethers.FunctionFragment.from(signature);
+            if (!this.fragmentsBySelector.has(fragment.selector)) {
+                this.fragmentsBySelector.set(fragment.selector, fragment);
+            }
+        } catch {
+            logger.debug('Skipping unparsable function signature', { signature });
+        }
+    }
+
+    private parse(
+        contractInterface: ethers.Interface | undefined,
+        data: string,
+    ): ethers.TransactionDescription | null {
+        if (!contractInterface) {
+            return null;
+        }
+
+        try {
+            return contractInterface.parseTransaction({ data });
+        } catch {
+            return null;
+        }
+    }
+
+    private parseWithSelector(data: string): ethers.TransactionDescription | null {
+        const fragment = this.fragmentsBySelector.get(data.slice(0, 10).toLowerCase());
+        return fragment ? this.parse(new ethers.Interface([fragment]), data) : null;
+    }
+
+    /**
+     * Split MultiSend packed transactions (operation, to, value, data length, data)
+     */
+    private decodeMultiSend(packed: string): DecodedSubCall[] {
+        const bytes = ethers.getBytes(packed);
+        const calls: DecodedSubCall[] = [];
+        let offset = 0;
+
+        while (offset < bytes.length) {
+            const operation = bytes[offset];
+            const to = toChecksumAddress(ethers.hexlify(bytes.slice(offset + 1, offset + 21)));
+            const value = ethers.toBigInt(bytes.slice(offset + 21, offset + 53)).toString();
+            const dataLength = Number(ethers.toBigInt(bytes.slice(offset + 53, offset + 85)));
+            const data = ethers.hexlify(bytes.slice(offset + 85, offset + 85 + dataLength));
+
+            calls.push({ operation, to, value, data, decoded: this.decode(to, data) });
+            offset += 85 + dataLength;
+        }
+
+        return calls;
+    }
+}
+
+/**
+ * Format a decoded call (and its MultiSend sub-calls) as indented lines
+ */
+export function formatDecodedCall(decoded: DecodedCall, indent: string = '   '): string[] {
+    const target = decoded.contractName ? `${decoded.contractName}.` : '';
+    const lines = [`${indent}Call: ${target}${decoded.functionName}(`];
+
+    if (decoded.calls) {
+        lines[0] += `${decoded.calls.length} sub-call(s))`;
+        decoded.calls.forEach((call, index) => {
+            const operation = call.operation === 1 ? 'delegatecall' : 'call';
+            lines.push(`${indent}  ${index + 1}. ${operation} ${call.to} (value: ${call.value})`);
+            if (call.decoded) {
+                lines.push(...formatDecodedCall(call.decoded, `${indent}     `));
+            } else {
+                lines.push(`${indent}     Data: ${truncateData(call.data)}`);
+            }
+        });
+        return lines;
+    }
+
+    lines[0] += decoded.args.length === 0 ? ')' : '';
+    decoded.args.forEach((arg, index) => {
+        const separator = index === decoded.args.length - 1 ? '' : ',';
+        lines.push(`${indent}    ${arg.name} (${arg.type}): ${arg.value}${separator}`);
+    });
+    if (decoded.args.length > 0) {
+        lines.push(`${indent})`);
+    }
+
+    return lines;
+}
+
+/**
+ * Convert decoded ABI values (bigint, nested Result arrays) to display strings
+ */
+function formatValue(value: unknown): string {
+    if (typeof value === 'bigint') {
+        return value.toString();
+    }
+
+    if (Array.isArray(value)) {
+        return `[${value.map(formatValue).join(', ')}]`;
+    }
+
+    return String(value);
+}
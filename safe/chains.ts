@@ -0,0 +1,222 @@
+/**
+ * Registry of the chains the integration knows about: naming, explorer, Safe{Wallet} and
+ * Safe Transaction Service endpoints, and Safe contract deployments
+ */
+
+export interface NativeCurrency {
+    name: string;
+    symbol: string;
+    decimals: number;
+}
+
+/** Safe contracts the Protocol Kit needs on a chain, named as in its `ContractNetworkConfig` */
+export const SAFE_CONTRACT_FIELDS = [
+    'safeSingletonAddress',
+    'safeProxyFactoryAddress',
+    'multiSendAddress',
+    'multiSendCallOnlyAddress',
+    'fallbackHandlerAddress',
+    'signMessageLibAddress',
+    'createCallAddress',
+    'simulateTxAccessorAddress',
+    'safeWebAuthnSignerFactoryAddress',
+    'safeWebAuthnSharedSignerAddress',
+] as const;
+
+export type SafeContractField = (typeof SAFE_CONTRACT_FIELDS)[number];
+
+export interface ChainInfo {
+    chainId: string;
+    name: string;
+    nativeCurrency: NativeCurrency;
+    /** Block explorer base URL, without trailing slash */
+    explorerUrl?: string;
+    /** EIP-3770 short name used by Safe{Wallet} links, for chains Safe{Wallet} supports */
+    shortName?: string;
+    /** Safe Transaction Service base URL, including the `/api` prefix */
+    txServiceUrl?: string;
+    /** Safe deployments to use instead of the canonical ones, all of them once one is set */
+    contracts?: Partial<Record<SafeContractField, string>>;
+    /** Substrings of the chain's RPC URLs, to guess the chain when the RPC is unreachable */
+    rpcUrlHints?: string[];
+}
+
+export const HOSTED_TX_SERVICE_URL = 'https://api.safe.global/tx-service';
+export const SAFE_APP_URL = 'https://app.safe.global';
+
+const ETHER: NativeCurrency = { name: 'Ether', symbol: 'ETH', decimals: 18 };
+
+/**
+ * Chain served by Safe{Wallet} and the hosted Safe Transaction Service
+ */
+function safeChain(
+    chainId: string,
+    name: string,
+    shortName: string,
+    explorerUrl: string,
+    details: Partial<ChainInfo> = {},
+): ChainInfo {
+    return {
+        chainId,
+        name,
+        nativeCurrency: ETHER,
+        explorerUrl,
+        shortName,
+        txServiceUrl: `${HOSTED_TX_SERVICE_URL}/${shortName}/api`,
+        ...details,
+    };
+}
+
+const BUILT_IN_CHAINS: ChainInfo[] = [
+    safeChain('1', 'Ethereum', 'eth', 'https://etherscan.io', {
+        rpcUrlHints: ['ethereum', 'eth-mainnet'],
+    }),
+    safeChain('10', 'OP Mainnet', 'oeth', 'https://optimistic.etherscan.io'),
+    safeChain('56', 'BNB Smart Chain', 'bnb', 'https://bscscan.com', {
+        nativeCurrency: { name: 'BNB', symbol: 'BNB', decimals: 18 },
+    }),
+    safeChain('100', 'Gnosis', 'gno', 'https://gnosisscan.io', {
+        nativeCurrency: { name: 'xDAI', symbol: 'XDAI', decimals: 18 },
+    }),
+    safeChain('137', 'Polygon', 'pol', 'https://polygonscan.com', {
+        nativeCurrency: { name: 'POL', symbol: 'POL', decimals: 18 },
+    }),
+    safeChain('324', 'zkSync Era', 'zksync', 'https://explorer.zksync.io'),
+    safeChain('8453', 'Base', 'base', 'https://basescan.org'),
+    safeChain('42161', 'Arbitrum One', 'arb1', 'https://arbiscan.io', {
+        rpcUrlHints: ['arbitrum', 'arb-mainnet'],
+    }),
+    safeChain('43114', 'Avalanche C-Chain', 'avax', 'https://snowtrace.io', {
+        nativeCurrency: { name: 'Avalanche', symbol: 'AVAX', decimals: 18 },
+    }),
+    safeChain('59144', 'Linea', 'linea', 'https://lineascan.build'),
+    safeChain('84532', 'Base Sepolia', 'basesep', 'https://sepolia.basescan.org'),
+    safeChain('534352', 'Scroll', 'scr', 'https://scrollscan.com'),
+    safeChain('11155111', 'Sepolia', 'sep', 'https://sepolia.etherscan.io', {
+        rpcUrlHints: ['sepolia'],
+    }),
+    // No hosted Safe Transaction Service: SAFE_TX_SERVICE_URL must be set
+    {
+        chainId: '421614',
+        name: 'Arbitrum Sepolia',
+        nativeCurrency: ETHER,
+        explorerUrl: 'https://sepolia.arbiscan.io',
+        rpcUrlHints: ['arbitrum-sepolia', 'arb-sepolia'],
+    },
+    {
+        chainId: '31337',
+        name: 'Anvil',
+        nativeCurrency: ETHER,
+        rpcUrlHints: ['localhost', '127.0.0.1', 'hardhat', 'anvil'],
+    },
+    { chainId: '1337', name: 'Localhost', nativeCurrency: ETHER },
+];
+
+const chains = new Map<string, ChainInfo>(BUILT_IN_CHAINS.map((chain) => [chain.chainId, chain]));
+
+/**
+ * Get a chain of the registry
+ */
+export function getChain(chainId: string | number | bigint): ChainInfo | undefined {
+    return chains.get(chainId.toString());
+}
+
+/**
+ * List the chains of the registry, built-in and registered
+ */
+export function getKnownChains(): ChainInfo[] {
+    return [...chains.values()];
+}
+
+/**
+ * Add a chain to the registry, or override settings of a known chain
+ */
+export function registerChain(chain: Partial<ChainInfo> & { chainId: string }): ChainInfo {
+    const registered: ChainInfo = {
+        name: `Chain ${chain.chainId}`,
+        nativeCurrency: ETHER,
+        ...chains.get(chain.chainId),
+        ...definedFields(chain),
+        chainId: chain.chainId,
+    };
+    chains.set(chain.chainId, registered);
+    return registered;
+}
+
+/**
+ * Display name of a chain, e.g. `Sepolia (11155111)`
+ */
+export function formatChain(chainId: string | number | bigint): string {
+    const chain = getChain(chainId);
+    return chain ? `${chain.name} (${chain.chainId})` : `chain ${chainId.toString()}`;
+}
+
+/**
+ * Guess the chain of an RPC URL from its hostname or path, the most specific hint winning
+ */
+export function findChainByRpcUrl(rpcUrl: string): ChainInfo | undefined {
+    const url = rpcUrl.toLowerCase();
+    let best: { chain: ChainInfo; hintLength: number } | undefined;
+
+    for (const chain of chains.values()) {
+        for (const hint of chain.rpcUrlHints ?? []) {
+            if (url.includes(hint) && hint.length > (best?.hintLength ?? 0)) {
+                best = { chain, hintLength: hint.length };
+            }
+        }
+    }
+
+    return best?.chain;
+}
+
+/**
+ * Whether a Safe Transaction Service URL points to the hosted service, which needs an API key
+ */
+export function isHostedTxService(txServiceUrl: string): boolean {
+    return txServiceUrl.startsWith(HOSTED_TX_SERVICE_URL);
+}
+
+/**
+ * Safe{Wallet} page of the Safe's transaction queue
+ */
+export function getSafeQueueUrl(chainId: string | bigint, safeAddress: string): string | undefined {
+    const prefix = getSafeAppPrefix(chainId, safeAddress);
+    return prefix && `${SAFE_APP_URL}/transactions/queue?safe=${prefix}`;
+}
+
+/**
+ * Safe{Wallet} page of a multisig transaction
+ */
+export function getSafeTransactionUrl(
+    chainId: string | bigint,
+    safeAddress: string,
+    safeTxHash: string,
+): string | undefined {
+    const prefix = getSafeAppPrefix(chainId, safeAddress);
+    return (
+        prefix &&
+        `${SAFE_APP_URL}/transactions/tx?safe=${prefix}&id=multisig_${safeAddress}_${safeTxHash}`
+    );
+}
+
+/**
+ * Block explorer page of an on-chain transaction
+ */
+export function getExplorerTransactionUrl(
+    chainId: string | bigint,
+    transactionHash: string,
+): string | undefined {
+    const explorerUrl = getChain(chainId)?.explorerUrl;
+    return explorerUrl && `${explorerUrl}/tx/${transactionHash}`;
+}
+
+function getSafeAppPrefix(chainId: string | bigint, safeAddress: string): string | undefined {
+    const shortName = getChain(chainId)?.shortName;
+    return shortName && `${shortName}:${safeAddress}`;
+}
+
+function definedFields<T extends object>(value: T): Partial<T> {
+    return Object.fromEntries(
+        Object.entries(value).filter(([, field]) => field !== undefined),
+    ) as Partial<T>;
+}
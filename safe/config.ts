@@ -1,9 +1,20 @@
 import { config } from 'dotenv';
 import { ethers } from 'ethers';
+import * as fs from 'fs';
+import * as yaml from 'js-yaml';
 import * as path from 'path';
-import { ConfigurationError } from './errors';
+import {
+    ChainInfo,
+    formatChain,
+    getChain,
+    isHostedTxService,
+    registerChain,
+    SAFE_CONTRACT_FIELDS,
+} from './chains';
+import { ConfigurationError, ErrorCode, NetworkError } from './errors';
 import { logger } from './logger';
-import { Validator } from './validation';
+import { loadSignerFromEnv, SafeSigner } from './signers';
+import { validateSchema, ValidationSchema, Validator } from './validation';
 
 // Load environment variables from .env.safe
 config({ path: path.join(__dirname, '../.env.safe') });
@@ -12,18 +23,103 @@ export interface SafeConfig {
     rpcUrl: string;
     chainId: bigint;
     safeAddress: string;
-    apiKey: string;
+    /** Safe Transaction Service base URL, including the `/api` prefix */
+    txServiceUrl: string;
+    /** API key of the hosted Safe Transaction Service, optional for self-hosted services */
+    apiKey?: string;
 }
 
+const TX_SERVICE_TIMEOUT_MS = 10_000;
+
+/**
+ * A named network of the project configuration file
+ */
+export interface NetworkConfig {
+    name: string;
+    /** Chain the RPC must serve; also matches the network to `--multi` broadcasts */
+    chainId?: string;
+    rpcUrl: string;
+    safeAddress: string;
+    txServiceUrl?: string;
+    /** Foundry script proposed when none is given, e.g. `script/Configure.s.sol:Configure` */
+    defaultScript?: string;
+}
+
+export interface ProjectConfig {
+    path: string;
+    networks: Record<string, NetworkConfig>;
+    /** Chains added to the chain registry, or settings overriding those of known chains */
+    chains: Array<Partial<ChainInfo> & { chainId: string }>;
+}
+
+export const PROJECT_CONFIG_FILES = ['safe.config.json', 'safe.config.yaml', 'safe.config.yml'];
+
+const NETWORK_SCHEMA: ValidationSchema = {
+    chainId: { type: 'number', custom: (value) => validateChainIdFormat(value) },
+    rpcUrl: { type: 'url', required: true },
+    safeAddress: { type: 'address', required: true },
+    txServiceUrl: {
+        type: 'string',
+        custom: (value) => Validator.validateServiceUrl(value as string, 'txServiceUrl'),
+    },
+    defaultScript: { type: 'string' },
+};
+
+const CHAIN_SCHEMA: ValidationSchema = {
+    name: { type: 'string' },
+    // Symbol of an 18-decimal native currency
+    nativeCurrency: { type: 'string' },
+    shortName: { type: 'string', pattern: /^[a-z0-9-]+$/ },
+    explorerUrl: {
+        type: 'string',
+        custom: (value) => Validator.validateServiceUrl(value as string, 'explorerUrl'),
+    },
+    txServiceUrl: {
+        type: 'string',
+        custom: (value) => Validator.validateServiceUrl(value as string, 'txServiceUrl'),
+    },
+    ...Object.fromEntries(SAFE_CONTRACT_FIELDS.map((field) => [field, { type: 'address' }])),
+};
+
+/** Settings a command line flag or action input gives explicitly */
+export type ExplicitSettings = Partial<Pick<SafeConfig, 'rpcUrl' | 'safeAddress' | 'txServiceUrl'>>;
+
+const SETTING_VARIABLES: Record<keyof ExplicitSettings, string> = {
+    rpcUrl: 'RPC_URL',
+    safeAddress: 'SAFE_ADDRESS',
+    txServiceUrl: 'SAFE_TX_SERVICE_URL',
+};
+
+// Network selected with `--network` or the action's `network` input
+let activeNetwork: NetworkConfig | undefined;
+// Set with `setExplicitSettings`
+let explicitSettings: ExplicitSettings = {};
+// Loaded once per process; null when the project has no configuration file
+let projectConfig: ProjectConfig | null | undefined;
+
 export interface OwnerConfig {
     address: string;
-    privateKey: string;
+    signer: SafeSigner;
 }
 
-export async function getSafeConfig(): Promise<SafeConfig> {
-    const rpcUrl = process.env.RPC_URL;
-    const safeAddress = process.env.SAFE_ADDRESS;
-    const apiKey = process.env.SAFE_API_KEY;
+/**
+ * Load the Safe configuration, optionally for a specific chain
+ *
+ * Each setting is resolved by `resolveSetting`: explicit flags and inputs, then
+ * `RPC_URL_<chainId>` / `SAFE_ADDRESS_<chainId>`, `RPC_URL` / `SAFE_ADDRESS`, and last the project
+ * network serving `expectedChainId` (or the selected network). When `expectedChainId` is given,
+ * the RPC must report that chain. A `txServiceUrl` given by the caller, such as a local mock
+ * service, replaces the configured one.
+ */
+export async function getSafeConfig(
+    expectedChainId?: string,
+    txServiceUrl?: string,
+): Promise<SafeConfig> {
+    getProjectConfig();
+    expectedChainId ??= activeNetwork?.chainId;
+    const network = findNetwork(expectedChainId);
+    const rpcUrl = resolveSetting('rpcUrl', expectedChainId, network);
+    const safeAddress = resolveSetting('safeAddress', expectedChainId, network);
 
     if (!rpcUrl) {
         logger.error('Missing required environment variable: RPC_URL');
@@ -39,13 +135,6 @@ export async function getSafeConfig(): Promise<SafeConfig> {
         });
     }
 
-    if (!apiKey) {
-        logger.error('Missing required environment variable: SAFE_API_KEY');
-        throw new ConfigurationError('SAFE_API_KEY is required in .env.safe', {
-            missingVariable: 'SAFE_API_KEY',
-        });
-    }
-
     // Get chain ID from RPC URL
     let chainId: bigint;
     try {
@@ -56,22 +145,35 @@ export async function getSafeConfig(): Promise<SafeConfig> {
         logger.info('Chain ID retrieved from RPC', { chainId: chainId.toString() });
     } catch (error) {
         logger.error('Failed to get chain ID from RPC URL', error as Error);
-        throw new ConfigurationError('Could not retrieve chain ID from RPC URL', {
-            rpcUrl,
-            error: (error as Error).message,
-        });
+        throw new NetworkError(
+            'Could not retrieve chain ID from RPC URL',
+            ErrorCode.RPC_CONNECTION_FAILED,
+            { rpcUrl, error: (error as Error).message },
+        );
+    }
+
+    if (expectedChainId) {
+        assertExpectedChainId(chainId, expectedChainId);
     }
 
+    const txService = getTxServiceConfig(
+        chainId.toString(),
+        network,
+        txServiceUrl || getExplicitSetting('txServiceUrl', expectedChainId),
+    );
+
     // Validate configuration
     try {
         Validator.validateRpcUrl(rpcUrl);
         Validator.validateAddress(safeAddress, 'SAFE_ADDRESS');
         Validator.validateChainId(chainId.toString());
+        Validator.validateServiceUrl(txService.txServiceUrl, 'SAFE_TX_SERVICE_URL');
 
         logger.info('Safe configuration validated successfully', {
             chainId: chainId.toString(),
             rpcUrl: rpcUrl.substring(0, 20) + '...', // Log truncated URL for security
             safeAddress,
+            txServiceUrl: txService.txServiceUrl,
         });
     } catch (error) {
         logger.error('Invalid Safe configuration', error as Error);
@@ -82,38 +184,420 @@ export async function getSafeConfig(): Promise<SafeConfig> {
         rpcUrl,
         chainId,
         safeAddress,
-        apiKey,
+        ...txService,
     };
 }
 
-export function getProposerConfig(): OwnerConfig {
-    const privateKey = process.env[`PROPOSER_PRIVATE_KEY`];
+/**
+ * Resolve the Safe Transaction Service of a chain
+ *
+ * The caller's override, `SAFE_TX_SERVICE_URL_<chainId>`, `SAFE_TX_SERVICE_URL` or the project
+ * network's `txServiceUrl` select a self-hosted service; otherwise the chain registry's service is used. The hosted
+ * service requires `SAFE_API_KEY`.
+ */
+function getTxServiceConfig(
+    chainId: string,
+    network?: NetworkConfig,
+    overrideUrl?: string,
+): Pick<SafeConfig, 'txServiceUrl' | 'apiKey'> {
+    const apiKey = process.env.SAFE_API_KEY || undefined;
+    const configuredUrl =
+        overrideUrl ||
+        getChainEnv('SAFE_TX_SERVICE_URL', chainId, network?.txServiceUrl) ||
+        getChain(chainId)?.txServiceUrl;
 
-    if (!privateKey) {
-        logger.error('Missing required proposer configuration');
-        throw new ConfigurationError(`PROPOSER_PRIVATE_KEY is required in .env.safe`, {
-            missingPrivateKey: !privateKey,
-        });
+    if (!configuredUrl) {
+        throw new ConfigurationError(
+            `No Safe Transaction Service known for ${formatChain(chainId)}; set SAFE_TX_SERVICE_URL`,
+            { chainId, missingVariable: 'SAFE_TX_SERVICE_URL' },
+        );
+    }
+
+    const txServiceUrl = configuredUrl.replace(/\/+$/, '');
+
+    if (!apiKey && isHostedTxService(txServiceUrl)) {
+        logger.error('Missing required environment variable: SAFE_API_KEY');
+        throw new ConfigurationError(
+            'SAFE_API_KEY is required in .env.safe to use the hosted Safe Transaction Service',
+            { missingVariable: 'SAFE_API_KEY', txServiceUrl },
+        );
     }
 
-    // Validate private key configuration
+    return { txServiceUrl, apiKey };
+}
+
+/**
+ * HTTP headers for direct Safe Transaction Service requests, as the API Kit sends them
+ */
+export function getTxServiceHeaders(apiKey?: string): Record<string, string> {
+    return {
+        Accept: 'application/json',
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+    };
+}
+
+/**
+ * Ensure the Safe Transaction Service answers and accepts the API key
+ */
+export async function checkTxServiceReachable(safeConfig: SafeConfig): Promise<void> {
+    const { txServiceUrl } = safeConfig;
+    let response: Response;
     try {
-        Validator.validatePrivateKey(privateKey, 'PROPOSER_PRIVATE_KEY');
+        response = await fetch(`${txServiceUrl}/v1/about/`, {
+            headers: getTxServiceHeaders(safeConfig.apiKey),
+            signal: AbortSignal.timeout(TX_SERVICE_TIMEOUT_MS),
+        });
+    } catch (error) {
+        throw new NetworkError(
+            `Safe Transaction Service is unreachable at ${txServiceUrl}`,
+            ErrorCode.TX_SERVICE_UNREACHABLE,
+            { txServiceUrl, error: (error as Error).message },
+        );
+    }
+
+    if (response.status === 401 || response.status === 403) {
+        throw new ConfigurationError(
+            `Safe Transaction Service at ${txServiceUrl} rejected SAFE_API_KEY (HTTP ${response.status})`,
+            { txServiceUrl, status: response.status },
+        );
+    }
+
+    if (!response.ok) {
+        throw new NetworkError(
+            `Safe Transaction Service at ${txServiceUrl} answered HTTP ${response.status}`,
+            ErrorCode.TX_SERVICE_UNREACHABLE,
+            { txServiceUrl, status: response.status },
+        );
+    }
+
+    logger.info('Safe Transaction Service reachable', { txServiceUrl });
+}
+
+/**
+ * Set the settings given explicitly to this process, by command line flags or action inputs
+ *
+ * They take precedence over the environment and the project configuration on the chain of the
+ * selected network (or of RPC_URL when none is selected); the other chains of a `--multi` run
+ * ignore them.
+ */
+export function setExplicitSettings(settings: ExplicitSettings): void {
+    explicitSettings = settings;
+}
+
+/**
+ * Resolve a setting of a chain, in order: the explicit flag or input, `<VARIABLE>_<chainId>`,
+ * `<VARIABLE>`, then the project network's value
+ */
+export function resolveSetting(
+    field: keyof ExplicitSettings,
+    chainId?: string,
+    network: NetworkConfig | undefined = findNetwork(chainId),
+): string | undefined {
+    return (
+        getExplicitSetting(field, chainId) ||
+        getChainEnv(SETTING_VARIABLES[field], chainId, network?.[field])
+    );
+}
+
+function getExplicitSetting(field: keyof ExplicitSettings, chainId?: string): string | undefined {
+    return !chainId || chainId === activeNetwork?.chainId ? explicitSettings[field] : undefined;
+}
+
+/**
+ * Read `<name>_<chainId>` when a chain is given, falling back to `<name>`, then to the project
+ * network's value
+ */
+function getChainEnv(name: string, chainId?: string, networkValue?: string): string | undefined {
+    return (chainId && process.env[`${name}_${chainId}`]) || process.env[name] || networkValue;
+}
+
+/**
+ * Find the project network of a chain, or the selected network when no chain is given
+ */
+function findNetwork(chainId?: string): NetworkConfig | undefined {
+    if (!chainId || activeNetwork?.chainId === chainId) {
+        return activeNetwork;
+    }
+
+    return Object.values(projectConfig?.networks ?? {}).find(
+        (network) => network.chainId === chainId,
+    );
+}
+
+/**
+ * Locate the project configuration file: `SAFE_CONFIG_FILE`, or the first of
+ * `PROJECT_CONFIG_FILES` in the working directory
+ */
+export function findProjectConfigFile(): string | undefined {
+    if (process.env.SAFE_CONFIG_FILE) {
+        return process.env.SAFE_CONFIG_FILE;
+    }
+
+    return PROJECT_CONFIG_FILES.map((file) => path.resolve(file)).find((file) =>
+        fs.existsSync(file),
+    );
+}
+
+/**
+ * Load and validate a project configuration file (JSON or YAML)
+ *
+ * String values may reference environment variables as `${NAME}`, so that RPC URLs holding
+ * credentials stay out of the committed file.
+ */
+export function loadProjectConfig(configPath: string): ProjectConfig {
+    const content = readConfigFile(configPath) as { networks?: unknown; chains?: unknown } | null;
+    if (!isObject(content)) {
+        throw new ConfigurationError(`${configPath} must define "networks" and/or "chains"`, {
+            configPath,
+        });
+    }
+
+    const errors: string[] = [];
+    const networks = mapSection(
+        content.networks,
+        'networks',
+        NETWORK_SCHEMA,
+        errors,
+        toNetworkConfig,
+    );
+    const chains = mapSection(content.chains, 'chains', CHAIN_SCHEMA, errors, toChainConfig);
+
+    Object.keys(chains).forEach((chainId) => {
+        try {
+            validateChainIdFormat(chainId);
+        } catch (error) {
+            errors.push(`chains.${chainId}: ${(error as Error).message}`);
+        }
+    });
+
+    if (errors.length > 0) {
+        throw new ConfigurationError(`Invalid project configuration ${configPath}`, {
+            configPath,
+            validationErrors: errors,
+        });
+    }
 
-        // Derive address from private key using ethers
-        const wallet = new ethers.Wallet(privateKey);
-        const address = wallet.address;
+    return { path: configPath, networks, chains: Object.values(chains) };
+}
+
+/**
+ * Load the project configuration file once, adding its chains to the chain registry
+ */
+export function getProjectConfig(): ProjectConfig | undefined {
+    if (projectConfig === undefined) {
+        const configPath = findProjectConfigFile();
+        projectConfig = configPath ? loadProjectConfig(configPath) : null;
+        projectConfig?.chains.forEach((chain) => registerChain(chain));
+    }
+
+    return projectConfig ?? undefined;
+}
+
+/**
+ * Select a network of the project configuration file for this process
+ */
+export function selectNetwork(name: string): NetworkConfig {
+    const loaded = getProjectConfig();
+    if (!loaded) {
+        throw new ConfigurationError(
+            `Network "${name}" requested but no project configuration found (${PROJECT_CONFIG_FILES.join(', ')})`,
+            { network: name },
+        );
+    }
 
-        logger.info('Proposer configuration validated successfully', {
-            address,
-            privateKeyLength: privateKey.length,
+    const network = loaded.networks[name];
+    if (!network) {
+        throw new ConfigurationError(`Unknown network "${name}" in ${loaded.path}`, {
+            network: name,
+            availableNetworks: Object.keys(loaded.networks),
         });
+    }
+
+    activeNetwork = network;
+    logger.info('Network selected', {
+        network: name,
+        chainId: network.chainId,
+        configPath: loaded.path,
+    });
+    return network;
+}
+
+/**
+ * Get the network selected with `selectNetwork`, if any
+ */
+export function getActiveNetwork(): NetworkConfig | undefined {
+    return activeNetwork;
+}
 
-        return {
-            address,
-            privateKey,
-        };
+function readConfigFile(configPath: string): unknown {
+    try {
+        const text = fs.readFileSync(configPath, 'utf8');
+        return /\.ya?ml$/i.test(configPath) ? yaml.load(text) : JSON.parse(text);
     } catch (error) {
+        throw new ConfigurationError(`Could not read project configuration ${configPath}`, {
+            configPath,
+            error: (error as Error).message,
+        });
+    }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Validate the entries of a `networks` or `chains` section and convert them
+ */
+function mapSection<T>(
+    section: unknown,
+    sectionName: string,
+    schema: ValidationSchema,
+    errors: string[],
+    convert: (key: string, settings: Record<string, unknown>) => T,
+): Record<string, T> {
+    if (section === undefined) {
+        return {};
+    }
+
+    if (!isObject(section)) {
+        errors.push(`${sectionName} must be an object`);
+        return {};
+    }
+
+    const parsed: Record<string, T> = {};
+    for (const [key, entry] of Object.entries(section)) {
+        if (!isObject(entry)) {
+            errors.push(`${sectionName}.${key} must be an object`);
+            continue;
+        }
+
+        const settings = expandEnvReferences(entry, errors);
+        const validation = validateSchema(settings, schema);
+        errors.push(...validation.errors.map((error) => `${sectionName}.${key}: ${error}`));
+        parsed[key] = convert(key, settings);
+    }
+
+    return parsed;
+}
+
+function validateChainIdFormat(value: unknown): void {
+    if (!/^\d+$/.test(String(value))) {
+        throw new Error('chain ID must be a non-negative integer');
+    }
+}
+
+function expandEnvReferences(
+    settings: Record<string, unknown>,
+    errors: string[],
+): Record<string, unknown> {
+    const expanded: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(settings)) {
+        expanded[key] =
+            typeof value === 'string'
+                ? value.replace(/\$\{(\w+)\}/g, (reference, variable: string) => {
+                      const envValue = process.env[variable];
+                      if (envValue === undefined) {
+                          errors.push(`${key} references unset variable ${variable}`);
+                      }
+                      return envValue ?? reference;
+                  })
+                : value;
+    }
+
+    return expanded;
+}
+
+function optionalSetting(settings: Record<string, unknown>, key: string): string | undefined {
+    return settings[key] === undefined || settings[key] === null
+        ? undefined
+        : String(settings[key] as string | number);
+}
+
+function toNetworkConfig(name: string, settings: Record<string, unknown>): NetworkConfig {
+    const optional = (key: string): string | undefined => optionalSetting(settings, key);
+
+    return {
+        name,
+        chainId: optional('chainId'),
+        rpcUrl: String(settings.rpcUrl),
+        safeAddress: String(settings.safeAddress),
+        txServiceUrl: optional('txServiceUrl'),
+        defaultScript: optional('defaultScript'),
+    };
+}
+
+function toChainConfig(
+    chainId: string,
+    settings: Record<string, unknown>,
+): Partial<ChainInfo> & { chainId: string } {
+    const optional = (key: string): string | undefined => optionalSetting(settings, key);
+    const symbol = optional('nativeCurrency');
+
+    return {
+        chainId,
+        name: optional('name'),
+        nativeCurrency: symbol ? { name: symbol, symbol, decimals: 18 } : undefined,
+        shortName: optional('shortName'),
+        explorerUrl: optional('explorerUrl')?.replace(/\/+$/, ''),
+        txServiceUrl: optional('txServiceUrl'),
+        contracts: toContractAddresses(settings),
+    };
+}
+
+/**
+ * Collect the Safe contract addresses of a chain's settings, undefined when none is set
+ */
+function toContractAddresses(settings: Record<string, unknown>): ChainInfo['contracts'] {
+    const contracts: NonNullable<ChainInfo['contracts']> = {};
+    for (const field of SAFE_CONTRACT_FIELDS) {
+        contracts[field] = optionalSetting(settings, field);
+    }
+    return Object.values(contracts).some(Boolean) ? contracts : undefined;
+}
+
+/**
+ * Ensure the RPC selected for a chain actually serves that chain
+ */
+function assertExpectedChainId(chainId: bigint, expectedChainId: string): void {
+    if (chainId.toString() === expectedChainId) {
+        return;
+    }
+
+    logger.error('RPC chain ID does not match the requested chain', {
+        expectedChainId,
+        chainId: chainId.toString(),
+    });
+    throw new NetworkError(
+        `RPC reports chain ${chainId} but chain ${expectedChainId} was requested; set RPC_URL_${expectedChainId}`,
+        ErrorCode.CHAIN_ID_MISMATCH,
+        { expectedChainId, chainId: chainId.toString() },
+    );
+}
+
+// Decrypting a keystore is slow, so the proposer signer is loaded once per process
+let proposerConfig: Promise<OwnerConfig> | undefined;
+
+/**
+ * Load the proposer signer from the `PROPOSER_*` environment variables
+ *
+ * See `loadSignerFromEnv` for the supported backends (hex key, keystore, mnemonic, remote).
+ */
+export async function getProposerConfig(): Promise<OwnerConfig> {
+    proposerConfig ??= loadSignerFromEnv('PROPOSER').then((signer) => ({
+        address: signer.address,
+        signer,
+    }));
+
+    try {
+        const ownerConfig = await proposerConfig;
+        logger.debug('Proposer configuration validated successfully', {
+            address: ownerConfig.address,
+            signerType: ownerConfig.signer.type,
+        });
+        return ownerConfig;
+    } catch (error) {
+        proposerConfig = undefined;
         logger.error('Invalid proposer configuration', error as Error);
         throw error;
     }
@@ -123,11 +607,18 @@ export async function validateEnvironment(): Promise<void> {
     logger.info('Validating environment configuration...');
 
     try {
-        await getSafeConfig();
-        getProposerConfig();
+        const safeConfig = await getSafeConfig();
+        await checkTxServiceReachable(safeConfig);
+        await getProposerConfig();
 
-        // Additional validation
-        const envValidation = Validator.validateEnvironmentVariables(process.env);
+        // Validate the settings in effect, which the selected network may provide instead of
+        // the environment
+        const envValidation = Validator.validateEnvironmentVariables({
+            ...process.env,
+            RPC_URL: safeConfig.rpcUrl,
+            SAFE_ADDRESS: safeConfig.safeAddress,
+            SAFE_TX_SERVICE_URL: safeConfig.txServiceUrl,
+        });
 
         if (!envValidation.isValid) {
             logger.error('Environment validation failed', { errors: envValidation.errors });
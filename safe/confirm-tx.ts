@@ -0,0 +1,113 @@
+#!/usr/bin/env ts-node
+
+import { validateEnvironment } from './config';
+import {
+    createOutput,
+    OutputOptions,
+    parseOutputOptions,
+    reserveStdoutForJson,
+    writeOutput,
+} from './json-output';
+import { ConfirmationResult, SafeManager } from './safe-manager';
+import { parseSafeTxHashes } from './utils';
+import { Validator } from './validation';
+
+interface ConfirmArgs {
+    safeTxHashes: string[];
+    output: OutputOptions;
+}
+
+function parseCommandLineArgs(): ConfirmArgs {
+    const { args, output } = parseOutputOptions(process.argv.slice(2));
+
+    if (args.length === 0 || args.includes('--help')) {
+        showHelpAndExit(args.length === 0 ? 1 : 0);
+    }
+
+    const unknownOption = args.find((arg) => arg.startsWith('--'));
+    if (unknownOption) {
+        console.error(`Unknown argument: ${unknownOption}`);
+        process.exit(1);
+    }
+
+    const safeTxHashes = parseSafeTxHashes(args.join(' '));
+    safeTxHashes.forEach((hash) => Validator.validateHexString(hash, 'safeTxHash', 64));
+
+    return { safeTxHashes, output };
+}
+
+function showHelpAndExit(exitCode: number): void {
+    console.log(`
+Usage: npm run confirm-tx -- <safeTxHash> [<safeTxHash> ...] [options]
+
+Signs pending Safe transactions with the proposer signer (which must be a Safe owner)
+and submits the confirmations to the Safe Transaction Service.
+
+Hashes can be separated by spaces or commas.
+
+Options:
+  --json                  Print the confirmations as a JSON document on stdout, and everything
+                          else on stderr
+  --output <file>         Also write the JSON document to a file
+
+Examples:
+  npm run confirm-tx -- 0xabc...
+  npm run confirm-tx -- 0xabc... 0xdef...
+  npm run confirm-tx -- 0xabc... --json
+        `);
+    process.exit(exitCode);
+}
+
+function displayConfirmation(result: ConfirmationResult, index: number): void {
+    const label = result.status === 'confirmed' ? 'Confirmed' : 'Already signed';
+
+    console.log(`Transaction ${index + 1}:`);
+    console.log(`   Hash: ${result.safeTxHash}`);
+    console.log(`   Status: ${label}`);
+    console.log(`   Confirmations: ${result.confirmations}/${result.confirmationsRequired}`);
+    console.log(
+        `   Executable: ${result.confirmations >= result.confirmationsRequired ? 'Ready' : 'Pending'}`,
+    );
+    console.log('');
+}
+
+async function main(): Promise<void> {
+    try {
+        const { safeTxHashes, output } = parseCommandLineArgs();
+
+        if (output.json) {
+            reserveStdoutForJson();
+        }
+
+        await validateEnvironment();
+
+        const safeManager = await SafeManager.create();
+
+        console.log(`Confirming ${safeTxHashes.length} transaction(s)...`);
+        console.log('');
+
+        const results: ConfirmationResult[] = [];
+        for (const safeTxHash of safeTxHashes) {
+            results.push(await safeManager.confirmTransaction(safeTxHash));
+        }
+
+        if (output.json || output.outputFile) {
+            const document = createOutput('confirmations', {
+                chainId: safeManager.getChainId(),
+                safeAddress: safeManager.getSafeAddress(),
+                confirmations: results,
+            });
+            writeOutput(document, output);
+        }
+        if (!output.json) {
+            results.forEach(displayConfirmation);
+        }
+    } catch (error) {
+        console.error('Error confirming transactions:', error);
+        process.exit(1);
+    }
+}
+
+if (require.main === module) {
+    void main();
+}
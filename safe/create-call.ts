@@ -0,0 +1,120 @@
+import { ethers } from 'ethers';
+import { ErrorCode, SafeTransactionError } from './errors';
+import { convertHexToDecimal, toChecksumAddress } from './utils';
+
+export const CREATE_CALL_ABI = [
+    'function performCreate(uint256 value, bytes deploymentData) returns (address newContract)',
+    'function performCreate2(uint256 value, bytes deploymentData, bytes32 salt) returns (address newContract)',
+];
+
+/** Broadcast entry fields needed to rebuild a deployment */
+export interface BroadcastDeployment {
+    transactionType: string;
+    contractName: string | null;
+    contractAddress: string | null;
+    transaction: {
+        to?: string | null;
+        value?: string | null;
+        input: string;
+    };
+}
+
+export interface DeploymentCall {
+    /** CREATE2 factory called by the Safe; CREATE deployments are delegatecalled into CreateCall */
+    factory?: string;
+    /** Factory calldata, or CreateCall calldata */
+    data: string;
+    /** Native value the deployed contract receives, in wei */
+    value: string;
+    predictedAddress: string;
+}
+
+const createCallInterface = new ethers.Interface(CREATE_CALL_ABI);
+
+/**
+ * Encode a CREATE/CREATE2 broadcast entry as a call made by the Safe
+ *
+ * CREATE deployments become CreateCall calls, and `accountNonce` is the Safe's account nonce
+ * when the deployment runs, used to predict their address. CREATE2 deployments are sent by
+ * Foundry to a factory (the deterministic deployer by default), which the Safe calls with the
+ * same salt and init code. The prediction must match the broadcast's `contractAddress`,
+ * otherwise the deployment would land at a different address than the script expects.
+ */
+export function encodeDeployment(
+    deployment: BroadcastDeployment,
+    safeAddress: string,
+    accountNonce: number,
+): DeploymentCall {
+    const value = convertHexToDecimal(deployment.transaction.value ?? '0x0');
+    const input = deployment.transaction.input;
+
+    if (!input || input === '0x') {
+        throw unsupported(deployment, 'broadcast entry has no init code');
+    }
+
+    let call: DeploymentCall;
+    if (deployment.transactionType === 'CREATE') {
+        call = {
+            data: createCallInterface.encodeFunctionData('performCreate', [value, input]),
+            value,
+            predictedAddress: ethers.getCreateAddress({ from: safeAddress, nonce: accountNonce }),
+        };
+    } else if (deployment.transactionType === 'CREATE2') {
+        call = encodeFactoryDeployment(deployment, value);
+    } else {
+        throw unsupported(deployment, `unsupported transaction type ${deployment.transactionType}`);
+    }
+    const { predictedAddress } = call;
+
+    if (!deployment.contractAddress) {
+        throw unsupported(deployment, 'broadcast entry has no contractAddress to check against');
+    }
+
+    if (predictedAddress.toLowerCase() !== deployment.contractAddress.toLowerCase()) {
+        throw unsupported(
+            deployment,
+            `the Safe would deploy at ${predictedAddress} instead of ${toChecksumAddress(deployment.contractAddress)}` +
+                (deployment.transactionType === 'CREATE2'
+                    ? ' (the salt or init code do not match the factory deployment)'
+                    : ' (the script must deploy from the Safe)'),
+        );
+    }
+
+    return call;
+}
+
+/**
+ * A CREATE2 deployment is proposed as the same call to the same factory, so it lands where the
+ * factory deploys it, whoever the caller
+ */
+function encodeFactoryDeployment(deployment: BroadcastDeployment, value: string): DeploymentCall {
+    const factory = deployment.transaction.to;
+    if (!factory) {
+        throw unsupported(deployment, 'broadcast entry has no CREATE2 factory');
+    }
+
+    // Foundry sends CREATE2 deployments to the factory as salt (32 bytes) ++ init code
+    const input = deployment.transaction.input;
+    const salt = ethers.dataSlice(input, 0, 32);
+    const initCode = ethers.dataSlice(input, 32);
+
+    return {
+        factory: toChecksumAddress(factory),
+        data: input,
+        value,
+        predictedAddress: ethers.getCreate2Address(factory, salt, ethers.keccak256(initCode)),
+    };
+}
+
+function unsupported(deployment: BroadcastDeployment, reason: string): SafeTransactionError {
+    const name = deployment.contractName || 'contract';
+    return new SafeTransactionError(
+        `Cannot propose ${deployment.transactionType} of ${name} from the Safe: ${reason}`,
+        ErrorCode.UNSUPPORTED_DEPLOYMENT,
+        {
+            contractName: deployment.contractName,
+            contractAddress: deployment.contractAddress,
+            transactionType: deployment.transactionType,
+        },
+    );
+}
@@ -0,0 +1,210 @@
+#!/usr/bin/env ts-node
+
+import { formatChain } from './chains';
+import { getProposerConfig, selectNetwork, validateEnvironment } from './config';
+import {
+    createOutput,
+    DelegatesOutput,
+    OutputOptions,
+    parseOutputOptions,
+    ProposerRole,
+    reserveStdoutForJson,
+    writeOutput,
+} from './json-output';
+import { SafeManager } from './safe-manager';
+import { loadSignerFromEnv } from './signers';
+
+type DelegatesCommand = 'list' | 'add' | 'remove';
+
+interface DelegatesArgs {
+    command: DelegatesCommand;
+    /** Defaults to the proposer address */
+    delegate?: string;
+    label: string;
+    network?: string;
+    output: OutputOptions;
+}
+
+type DelegatesListing = Required<Pick<DelegatesOutput, 'delegates' | 'proposer'>>;
+
+const COMMANDS: DelegatesCommand[] = ['list', 'add', 'remove'];
+
+function parseCommandLineArgs(): DelegatesArgs {
+    const { args, output } = parseOutputOptions(process.argv.slice(2));
+
+    if (args.length === 0 || args.includes('--help')) {
+        showHelpAndExit(args.length === 0 ? 1 : 0);
+    }
+
+    const [command, ...rest] = args;
+    if (!COMMANDS.includes(command as DelegatesCommand)) {
+        console.error(`Unknown command: ${command}`);
+        process.exit(1);
+    }
+
+    return { command: command as DelegatesCommand, ...parseOptions(command, rest), output };
+}
+
+function parseOptions(command: string, args: string[]): Omit<DelegatesArgs, 'command' | 'output'> {
+    const options: Omit<DelegatesArgs, 'command' | 'output'> = { label: 'proposer' };
+    for (let i = 0; i < args.length; i++) {
+        if ((args[i] === '--label' || args[i] === '--network') && args[i + 1]) {
+            options[args[i] === '--label' ? 'label' : 'network'] = args[++i];
+        } else if (!args[i].startsWith('--') && !options.delegate && command !== 'list') {
+            options.delegate = args[i];
+        } else {
+            console.error(`Unknown argument: ${args[i]}`);
+            process.exit(1);
+        }
+    }
+
+    return options;
+}
+
+function showHelpAndExit(exitCode: number): void {
+    console.log(`
+Usage: npm run delegates -- list [options]
+       npm run delegates -- add [<delegate>] [--label <label>] [options]
+       npm run delegates -- remove [<delegate>] [options]
+
+Commands:
+  list      List the delegates registered for the Safe, and whether the proposer can propose
+  add       Register a delegate of the SIGNER_* owner (default: the proposer address), so it
+            can propose transactions without being an owner. Default label: proposer
+  remove    Remove a delegate registered by the SIGNER_* owner (default: the proposer address)
+
+Options:
+  --network <name>        Network of the project configuration file (safe.config.json/yaml)
+  --json                  Print the result as a JSON document on stdout, and everything else
+                          on stderr
+  --output <file>         Also write the JSON document to a file
+
+The owner signs the request with any SIGNER_* backend: SIGNER_PRIVATE_KEY, SIGNER_KEYSTORE
+with SIGNER_PASSWORD_FILE, SIGNER_MNEMONIC or SIGNER_REMOTE_SIGNER_URL with SIGNER_ADDRESS.
+
+Examples:
+  npm run delegates -- list
+  SIGNER_KEYSTORE=alice SIGNER_PASSWORD_FILE=./pw npm run delegates -- add
+  SIGNER_PRIVATE_KEY=0x... npm run delegates -- remove 0xabc...
+  npm run delegates -- list --json
+        `);
+    process.exit(exitCode);
+}
+
+/**
+ * Delegates of the Safe, and whether the proposer is an owner, a delegate or neither
+ */
+async function listDelegates(safeManager: SafeManager): Promise<DelegatesListing> {
+    const [delegates, owners, proposer] = await Promise.all([
+        safeManager.getDelegates(),
+        safeManager.getSafeOwners(),
+        getProposerConfig(),
+    ]);
+    const isProposer = (address: string): boolean =>
+        address.toLowerCase() === proposer.address.toLowerCase();
+
+    let role: ProposerRole = 'none';
+    if (owners.some(isProposer)) {
+        role = 'owner';
+    } else if (delegates.some((delegate) => isProposer(delegate.delegate))) {
+        role = 'delegate';
+    }
+
+    return {
+        delegates: delegates.map(({ delegate, delegator, label }) => ({
+            delegate,
+            delegator,
+            label,
+        })),
+        proposer: { address: proposer.address, role },
+    };
+}
+
+function displayDelegates(
+    safeManager: SafeManager,
+    { delegates, proposer }: DelegatesListing,
+): void {
+    console.log(
+        `Delegates of ${safeManager.getSafeAddress()} on ${formatChain(safeManager.getChainId())}:`,
+    );
+    delegates.forEach((delegate) => {
+        console.log(`   ${delegate.delegate}${delegate.label ? ` (${delegate.label})` : ''}`);
+        console.log(`      Delegator: ${delegate.delegator}`);
+    });
+    if (delegates.length === 0) {
+        console.log('   none');
+    }
+    console.log('');
+
+    if (proposer.role !== 'none') {
+        console.log(
+            `Proposer ${proposer.address} is ${proposer.role === 'owner' ? 'an owner' : 'a delegate'}`,
+        );
+    } else {
+        console.warn(
+            `⚠️  Proposer ${proposer.address} is neither an owner nor a delegate: its proposals will be rejected. Register it with \`npm run delegates -- add\``,
+        );
+    }
+}
+
+/**
+ * Add or remove a delegate of the SIGNER_* owner
+ */
+async function changeDelegate(
+    safeManager: SafeManager,
+    parsedArgs: DelegatesArgs,
+): Promise<Pick<DelegatesOutput, 'delegate' | 'delegator'>> {
+    const owner = await loadSignerFromEnv('SIGNER');
+    const delegate = parsedArgs.delegate ?? (await getProposerConfig()).address;
+
+    if (parsedArgs.command === 'add') {
+        await safeManager.addDelegate(owner, delegate, parsedArgs.label);
+        console.log(`Added ${delegate} as a delegate of ${owner.address}`);
+    } else {
+        await safeManager.removeDelegate(owner, delegate);
+        console.log(`Removed ${delegate} as a delegate of ${owner.address}`);
+    }
+
+    return { delegate, delegator: owner.address };
+}
+
+async function main(): Promise<void> {
+    const parsedArgs = parseCommandLineArgs();
+    const { command, output } = parsedArgs;
+
+    try {
+        if (output.json) {
+            reserveStdoutForJson();
+        }
+        if (parsedArgs.network) {
+            selectNetwork(parsedArgs.network);
+        }
+
+        await validateEnvironment();
+        const safeManager = await SafeManager.create({ simulate: false });
+        const result =
+            command === 'list'
+                ? await listDelegates(safeManager)
+                : await changeDelegate(safeManager, parsedArgs);
+
+        if (output.json || output.outputFile) {
+            const document = createOutput('delegates', {
+                command,
+                chainId: safeManager.getChainId(),
+                safeAddress: safeManager.getSafeAddress(),
+                ...result,
+            });
+            writeOutput(document, output);
+        }
+        if (!output.json && 'proposer' in result) {
+            displayDelegates(safeManager, result);
+        }
+    } catch (error) {
+        console.error(`Error running delegates ${parsedArgs.command}:`, error);
+        process.exit(1);
+    }
+}
+
+if (require.main === module) {
+    void main();
+}
@@ -0,0 +1,416 @@
+#!/usr/bin/env ts-node
+
+import { execFile } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import { promisify } from 'util';
+import { formatChain } from './chains';
+import {
+    checkTxServiceReachable,
+    getProposerConfig,
+    getSafeConfig,
+    SafeConfig,
+    selectNetwork,
+} from './config';
+import {
+    AppError,
+    ERROR_MESSAGES,
+    ErrorCode,
+    FileSystemError,
+    FoundryError,
+    SafeTransactionError,
+} from './errors';
+import {
+    createOutput,
+    OutputOptions,
+    parseOutputOptions,
+    reserveStdoutForJson,
+    writeOutput,
+} from './json-output';
+import { SafeManager } from './safe-manager';
+import { getAvailableChains, getAvailableScripts, getBroadcastFilePath } from './utils';
+
+const execFileAsync = promisify(execFile);
+
+const TOOL_TIMEOUT_MS = 5000;
+
+export type DoctorStatus = 'pass' | 'warn' | 'fail' | 'skip';
+
+export interface DoctorCheck {
+    name: string;
+    status: DoctorStatus;
+    detail: string;
+    /** Error code of a failure or warning, whose `ERROR_MESSAGES` entry heads the hint */
+    code?: ErrorCode;
+    hint?: string;
+}
+
+/** What the checks learned so far, for the checks that depend on it */
+interface DoctorContext {
+    safeConfig?: SafeConfig;
+    safeManager?: SafeManager;
+    owners?: string[];
+    txServiceReachable?: boolean;
+}
+
+interface DoctorOutcome {
+    detail: string;
+    status?: Extract<DoctorStatus, 'pass' | 'warn'>;
+    code?: ErrorCode;
+}
+
+interface DoctorStep {
+    name: string;
+    /** Context the check needs, set by earlier checks; the check is skipped without it */
+    requires?: Array<keyof DoctorContext>;
+    run(context: DoctorContext): Promise<DoctorOutcome>;
+}
+
+/**
+ * How to fix each kind of failure, appended to its `ERROR_MESSAGES` entry
+ */
+const REMEDIATIONS: Partial<Record<ErrorCode, string>> = {
+    [ErrorCode.INVALID_CONFIGURATION]:
+        'Check .env.safe (RPC_URL, SAFE_ADDRESS, SAFE_API_KEY, PROPOSER_*) or the network of safe.config.json/yaml',
+    [ErrorCode.INVALID_RPC_URL]: 'Set RPC_URL to an http(s) or ws(s) endpoint',
+    [ErrorCode.INVALID_SAFE_ADDRESS]: 'Set SAFE_ADDRESS to the checksummed address of the Safe',
+    [ErrorCode.INVALID_PRIVATE_KEY]: 'Set PROPOSER_PRIVATE_KEY to a 32-byte hex key',
+    [ErrorCode.RPC_CONNECTION_FAILED]:
+        'Check that RPC_URL is reachable from this machine and that its API key is valid',
+    [ErrorCode.CHAIN_ID_MISMATCH]:
+        'Point RPC_URL (or RPC_URL_<chainId>) at the chain the Safe is deployed on',
+    [ErrorCode.TX_SERVICE_UNREACHABLE]:
+        'Check SAFE_TX_SERVICE_URL, or unset it to use the hosted service of the chain',
+    [ErrorCode.SAFE_NOT_DEPLOYED]:
+        'Check SAFE_ADDRESS and that the Safe is deployed on the chain of RPC_URL',
+    [ErrorCode.SIGNER_NOT_OWNER]:
+        'Add the proposer as an owner, or register it as a delegate with `npm run delegates -- add`',
+    [ErrorCode.FOUNDRY_NOT_FOUND]:
+        'Install Foundry with `curl -L https://foundry.paradigm.xyz | bash && foundryup`',
+    [ErrorCode.BROADCAST_FILE_NOT_FOUND]:
+        'Run the Foundry script once (`npm run execute-tx`) to create the broadcast directory',
+    [ErrorCode.INVALID_BROADCAST_FILE]:
+        'Run the Foundry script again, or delete the listed files from the broadcast directory',
+};
+
+const DOCTOR_STEPS: DoctorStep[] = [
+    {
+        name: 'RPC and chain ID',
+        run: async (context): Promise<DoctorOutcome> => {
+            const safeConfig = await getSafeConfig();
+            context.safeConfig = safeConfig;
+            return {
+                detail: `${formatChain(safeConfig.chainId)} via ${new URL(safeConfig.rpcUrl).host}`,
+            };
+        },
+    },
+    {
+        name: 'Safe contract',
+        requires: ['safeConfig'],
+        run: async (context): Promise<DoctorOutcome> => {
+            const safeManager = await SafeManager.create({ simulate: false });
+            const version = await safeManager.assertSafeDeployed();
+            context.safeManager = safeManager;
+            return { detail: `Safe v${version} at ${safeManager.getSafeAddress()}` };
+        },
+    },
+    {
+        name: 'Owners and threshold',
+        requires: ['safeManager'],
+        run: async (context): Promise<DoctorOutcome> => {
+            const { owners, threshold } = await (
+                context.safeManager as SafeManager
+            ).getOnChainSetup();
+            context.owners = owners;
+            return { detail: `${threshold} of ${owners.length} owner(s)` };
+        },
+    },
+    {
+        name: 'Safe Transaction Service',
+        requires: ['safeConfig'],
+        run: async (context): Promise<DoctorOutcome> => {
+            const safeConfig = context.safeConfig as SafeConfig;
+            await checkTxServiceReachable(safeConfig);
+            context.txServiceReachable = true;
+            return {
+                detail: `${safeConfig.txServiceUrl} (${safeConfig.apiKey ? 'API key accepted' : 'no API key'})`,
+            };
+        },
+    },
+    {
+        name: 'Proposer',
+        requires: ['owners'],
+        run: checkProposer,
+    },
+    {
+        name: 'Foundry (forge)',
+        run: async () => ({ detail: await getToolVersion('forge') }),
+    },
+    {
+        name: 'Anvil',
+        run: async (): Promise<DoctorOutcome> => {
+            try {
+                return { detail: await getToolVersion('anvil') };
+            } catch (error) {
+                return {
+                    status: 'warn',
+                    detail: 'Not installed: proposals need --no-simulate',
+                    code: (error as AppError).code,
+                };
+            }
+        },
+    },
+    {
+        name: 'Broadcast directory',
+        run: (context) =>
+            Promise.resolve(inspectBroadcastDirectory(context.safeConfig?.chainId.toString())),
+    },
+];
+
+/**
+ * Check the whole setup (RPC, Safe, owners, proposer, Safe Transaction Service, Foundry and
+ * broadcast files), reporting every problem instead of stopping at the first one
+ */
+export async function runDoctorChecks(): Promise<DoctorCheck[]> {
+    const context: DoctorContext = {};
+    const checks: DoctorCheck[] = [];
+
+    try {
+        for (const step of DOCTOR_STEPS) {
+            checks.push(await runStep(step, context));
+        }
+    } finally {
+        context.safeManager?.dispose();
+    }
+
+    return checks;
+}
+
+/**
+ * Render checks as a table, followed by the hints of the failures and warnings
+ */
+export function formatDoctorReport(checks: DoctorCheck[]): string[] {
+    const nameWidth = Math.max(...checks.map((check) => check.name.length));
+    const lines = checks.map(
+        (check) =>
+            `${check.name.padEnd(nameWidth)}  ${check.status.toUpperCase().padEnd(4)}  ${check.detail}`,
+    );
+
+    const hinted = checks.filter((check) => check.hint);
+    if (hinted.length > 0) {
+        lines.push('', 'Hints:');
+        hinted.forEach((check) => lines.push(`  ${check.name}: ${check.hint}`));
+    }
+
+    return lines;
+}
+
+async function runStep(step: DoctorStep, context: DoctorContext): Promise<DoctorCheck> {
+    if (step.requires?.some((key) => context[key] === undefined)) {
+        return { name: step.name, status: 'skip', detail: 'Skipped: depends on a failed check' };
+    }
+
+    try {
+        const { status = 'pass', detail, code } = await step.run(context);
+        return { name: step.name, status, detail, ...hintFor(code) };
+    } catch (error) {
+        const code = error instanceof AppError ? error.code : ErrorCode.UNKNOWN_ERROR;
+        return {
+            name: step.name,
+            status: 'fail',
+            detail: (error as Error).message,
+            ...hintFor(code),
+        };
+    }
+}
+
+function hintFor(code?: ErrorCode): Pick<DoctorCheck, 'code' | 'hint'> {
+    if (!code) {
+        return {};
+    }
+
+    const remediation = REMEDIATIONS[code];
+    return {
+        code,
+        hint: remediation ? `${ERROR_MESSAGES[code]}. ${remediation}` : ERROR_MESSAGES[code],
+    };
+}
+
+/**
+ * The proposer must be an owner, or a delegate registered in the Safe Transaction Service
+ */
+async function checkProposer(context: DoctorContext): Promise<DoctorOutcome> {
+    const { address, signer } = await getProposerConfig();
+    const isSameAddress = (other: string): boolean => other.toLowerCase() === address.toLowerCase();
+
+    if ((context.owners as string[]).some(isSameAddress)) {
+        return { detail: `${address} (${signer.type}) is an owner` };
+    }
+
+    if (!context.txServiceReachable) {
+        throw new SafeTransactionError(
+            `${address} is not an owner, and delegates cannot be listed without the Safe Transaction Service`,
+            ErrorCode.SIGNER_NOT_OWNER,
+            { proposer: address },
+        );
+    }
+
+    const delegation = (await (context.safeManager as SafeManager).getDelegates()).find(
+        (delegate) => isSameAddress(delegate.delegate),
+    );
+    if (!delegation) {
+        throw new SafeTransactionError(
+            `${address} is neither an owner nor a delegate of the Safe`,
+            ErrorCode.SIGNER_NOT_OWNER,
+            { proposer: address },
+        );
+    }
+
+    return { detail: `${address} (${signer.type}) is a delegate of ${delegation.delegator}` };
+}
+
+async function getToolVersion(command: string): Promise<string> {
+    try {
+        const { stdout } = await execFileAsync(command, ['--version'], {
+            timeout: TOOL_TIMEOUT_MS,
+        });
+        return stdout.split('\n')[0].trim();
+    } catch (error) {
+        throw new FoundryError(
+            `${command} is not installed or not in PATH`,
+            ErrorCode.FOUNDRY_NOT_FOUND,
+            {
+                command,
+                error: (error as Error).message,
+            },
+        );
+    }
+}
+
+/**
+ * Check that the broadcast files Foundry wrote can be read, as proposals rely on them
+ */
+function inspectBroadcastDirectory(chainId?: string): DoctorOutcome {
+    const broadcastDir = path.join(process.cwd(), 'broadcast');
+    if (!fs.existsSync(broadcastDir)) {
+        return {
+            status: 'warn',
+            detail: `No ${broadcastDir} yet`,
+            code: ErrorCode.BROADCAST_FILE_NOT_FOUND,
+        };
+    }
+
+    const scripts = getAvailableScripts();
+    const runFiles = [
+        ...scripts.flatMap((script) =>
+            getAvailableChains(script).map((chain) => getBroadcastFilePath(script, chain)),
+        ),
+        ...getMultiChainRunFiles(broadcastDir),
+    ].filter((file) => fs.existsSync(file));
+
+    const invalidFiles = runFiles.filter((file) => !isBroadcastFile(file));
+    if (invalidFiles.length > 0) {
+        throw new FileSystemError(
+            `Unreadable broadcast file(s): ${invalidFiles.map((file) => path.relative(process.cwd(), file)).join(', ')}`,
+            ErrorCode.INVALID_BROADCAST_FILE,
+            { invalidFiles },
+        );
+    }
+
+    const chainScripts = chainId
+        ? scripts.filter((script) => getAvailableChains(script).includes(chainId))
+        : [];
+    const chainNote = chainId ? `, ${chainScripts.length} for ${formatChain(chainId)}` : '';
+    return { detail: `${scripts.length} script(s), ${runFiles.length} run file(s)${chainNote}` };
+}
+
+function getMultiChainRunFiles(broadcastDir: string): string[] {
+    const multiDir = path.join(broadcastDir, 'multi');
+    if (!fs.existsSync(multiDir)) {
+        return [];
+    }
+
+    return fs.readdirSync(multiDir).map((dir) => path.join(multiDir, dir, 'run.json'));
+}
+
+function isBroadcastFile(file: string): boolean {
+    try {
+        const content = JSON.parse(fs.readFileSync(file, 'utf8')) as Record<string, unknown>;
+        return Array.isArray(content.transactions) || Array.isArray(content.deployments);
+    } catch {
+        return false;
+    }
+}
+
+function parseCommandLineArgs(): { network?: string; output: OutputOptions } {
+    const { args, output } = parseOutputOptions(process.argv.slice(2));
+
+    if (args.includes('--help')) {
+        showHelpAndExit();
+    }
+
+    if (args[0] === '--network' && args[1] && args.length === 2) {
+        return { network: args[1], output };
+    }
+
+    if (args.length > 0) {
+        console.error(`Unknown argument: ${args[0]}`);
+        process.exit(1);
+    }
+
+    return { output };
+}
+
+function showHelpAndExit(): void {
+    console.log(`
+Usage: npm run doctor [-- [options]]
+
+Checks the whole setup before anything is proposed: RPC reachability and chain ID, Safe
+contract and version, owners and threshold, whether the proposer is an owner or a registered
+delegate, Safe Transaction Service reachability and API key, Foundry and Anvil, and the
+broadcast directory. Prints a pass/fail table with a hint for each problem, and exits with
+status 1 when a check fails.
+
+Options:
+  --network <name>   Network of the project configuration file (safe.config.json/yaml)
+  --json             Print the checks as a JSON document on stdout, and everything else on
+                     stderr
+  --output <file>    Also write the JSON document to a file
+        `);
+    process.exit(0);
+}
+
+async function main(): Promise<void> {
+    const parsedArgs = parseCommandLineArgs();
+    const { output } = parsedArgs;
+
+    try {
+        if (output.json) {
+            reserveStdoutForJson();
+        }
+        if (parsedArgs.network) {
+            selectNetwork(parsedArgs.network);
+        }
+
+        const checks = await runDoctorChecks();
+        const passed = !checks.some((check) => check.status === 'fail');
+
+        if (output.json || output.outputFile) {
+            writeOutput(createOutput('doctor', { passed, checks }), output);
+        }
+        if (!output.json) {
+            formatDoctorReport(checks).forEach((line) => console.log(line));
+        }
+
+        if (!passed) {
+            process.exit(1);
+        }
+    } catch (error) {
+        console.error('Error running doctor:', error);
+        process.exit(1);
+    }
+}
+
+if (require.main === module) {
+    void main();
+}
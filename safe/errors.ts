@@ -14,16 +14,25 @@ export enum ErrorCode {
     RPC_CONNECTION_FAILED = 'RPC_CONNECTION_FAILED',
     CHAIN_ID_MISMATCH = 'CHAIN_ID_MISMATCH',
     NETWORK_TIMEOUT = 'NETWORK_TIMEOUT',
+    TX_SERVICE_UNREACHABLE = 'TX_SERVICE_UNREACHABLE',
 
     // Safe Transaction Errors
     SAFE_TRANSACTION_FAILED = 'SAFE_TRANSACTION_FAILED',
     NONCE_CONFLICT = 'NONCE_CONFLICT',
     INSUFFICIENT_CONFIRMATIONS = 'INSUFFICIENT_CONFIRMATIONS',
     TRANSACTION_PROPOSAL_FAILED = 'TRANSACTION_PROPOSAL_FAILED',
+    SIMULATION_FAILED = 'SIMULATION_FAILED',
+    SIGNER_NOT_OWNER = 'SIGNER_NOT_OWNER',
+    TRANSACTION_ALREADY_EXECUTED = 'TRANSACTION_ALREADY_EXECUTED',
+    SAFE_TX_HASH_MISMATCH = 'SAFE_TX_HASH_MISMATCH',
+    UNSUPPORTED_DEPLOYMENT = 'UNSUPPORTED_DEPLOYMENT',
+    TRANSACTION_NOT_DELETABLE = 'TRANSACTION_NOT_DELETABLE',
+    SAFE_NOT_DEPLOYED = 'SAFE_NOT_DEPLOYED',
 
     // File System Errors
     BROADCAST_FILE_NOT_FOUND = 'BROADCAST_FILE_NOT_FOUND',
     INVALID_BROADCAST_FILE = 'INVALID_BROADCAST_FILE',
+    INVALID_TRANSACTION_BUNDLE = 'INVALID_TRANSACTION_BUNDLE',
     FILE_PERMISSION_ERROR = 'FILE_PERMISSION_ERROR',
 
     // Foundry/Anvil Errors
@@ -35,6 +44,7 @@ export enum ErrorCode {
     INVALID_TRANSACTION_DATA = 'INVALID_TRANSACTION_DATA',
     INVALID_HEX_VALUE = 'INVALID_HEX_VALUE',
     INVALID_ADDRESS = 'INVALID_ADDRESS',
+    POLICY_VIOLATION = 'POLICY_VIOLATION',
 
     // General Errors
     OPERATION_TIMEOUT = 'OPERATION_TIMEOUT',
@@ -184,14 +194,24 @@ export const ERROR_MESSAGES: Record<ErrorCode, string> = {
     [ErrorCode.RPC_CONNECTION_FAILED]: 'Failed to connect to RPC endpoint',
     [ErrorCode.CHAIN_ID_MISMATCH]: 'Chain ID mismatch between configuration and network',
     [ErrorCode.NETWORK_TIMEOUT]: 'Network operation timed out',
+    [ErrorCode.TX_SERVICE_UNREACHABLE]: 'Safe Transaction Service is unreachable',
 
     [ErrorCode.SAFE_TRANSACTION_FAILED]: 'Safe transaction execution failed',
     [ErrorCode.NONCE_CONFLICT]: 'Transaction nonce conflict detected',
     [ErrorCode.INSUFFICIENT_CONFIRMATIONS]: 'Insufficient confirmations for transaction execution',
     [ErrorCode.TRANSACTION_PROPOSAL_FAILED]: 'Failed to propose transaction to Safe',
+    [ErrorCode.SIMULATION_FAILED]: 'Safe transaction reverted during fork simulation',
+    [ErrorCode.SIGNER_NOT_OWNER]: 'Configured signer is not an owner of the Safe',
+    [ErrorCode.TRANSACTION_ALREADY_EXECUTED]: 'Safe transaction has already been executed',
+    [ErrorCode.SAFE_TX_HASH_MISMATCH]: 'Safe transaction hash does not match its data',
+    [ErrorCode.UNSUPPORTED_DEPLOYMENT]: 'Contract deployment cannot be proposed through CreateCall',
+    [ErrorCode.TRANSACTION_NOT_DELETABLE]:
+        'Only proposals made by the proposer and not signed by other owners can be deleted',
+    [ErrorCode.SAFE_NOT_DEPLOYED]: 'No Safe is deployed at the Safe address on this chain',
 
     [ErrorCode.BROADCAST_FILE_NOT_FOUND]: 'Foundry broadcast file not found',
     [ErrorCode.INVALID_BROADCAST_FILE]: 'Invalid or corrupted broadcast file',
+    [ErrorCode.INVALID_TRANSACTION_BUNDLE]: 'Invalid or unreadable Safe transaction bundle',
     [ErrorCode.FILE_PERMISSION_ERROR]: 'File permission denied',
 
     [ErrorCode.FOUNDRY_NOT_FOUND]: 'Foundry toolkit not found or not installed',
@@ -201,6 +221,7 @@ export const ERROR_MESSAGES: Record<ErrorCode, string> = {
     [ErrorCode.INVALID_TRANSACTION_DATA]: 'Invalid transaction data format',
     [ErrorCode.INVALID_HEX_VALUE]: 'Invalid hexadecimal value',
     [ErrorCode.INVALID_ADDRESS]: 'Invalid Ethereum address',
+    [ErrorCode.POLICY_VIOLATION]: 'Transactions violate the transaction policy',
 
     [ErrorCode.OPERATION_TIMEOUT]: 'Operation timed out',
     [ErrorCode.UNKNOWN_ERROR]: 'An unknown error occurred',
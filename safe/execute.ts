@@ -0,0 +1,148 @@
+#!/usr/bin/env ts-node
+
+import { validateEnvironment } from './config';
+import {
+    createOutput,
+    OutputOptions,
+    parseOutputOptions,
+    reserveStdoutForJson,
+    writeOutput,
+} from './json-output';
+import { ExecutionResult, SafeManager } from './safe-manager';
+import { parseSafeTxHashes } from './utils';
+import { Validator } from './validation';
+
+interface ExecuteArgs {
+    allReady: boolean;
+    safeTxHashes: string[];
+    output: OutputOptions;
+}
+
+function parseCommandLineArgs(): ExecuteArgs {
+    const { args, output } = parseOutputOptions(process.argv.slice(2));
+
+    if (args.length === 0 || args.includes('--help')) {
+        showHelpAndExit(args.length === 0 ? 1 : 0);
+    }
+
+    const allReady = args.includes('--all-ready');
+    const unknownOption = args.find((arg) => arg.startsWith('--') && arg !== '--all-ready');
+    if (unknownOption) {
+        console.error(`Unknown argument: ${unknownOption}`);
+        process.exit(1);
+    }
+
+    const safeTxHashes = parseSafeTxHashes(args.filter((arg) => !arg.startsWith('--')).join(' '));
+    if (allReady === safeTxHashes.length > 0) {
+        console.error('Pass either safeTxHashes or --all-ready');
+        process.exit(1);
+    }
+    safeTxHashes.forEach((hash) => Validator.validateHexString(hash, 'safeTxHash', 64));
+
+    return { allReady, safeTxHashes, output };
+}
+
+function showHelpAndExit(exitCode: number): void {
+    console.log(`
+Usage: npm run execute -- <safeTxHash> [<safeTxHash> ...] [options]
+       npm run execute -- --all-ready [options]
+
+Executes fully confirmed Safe transactions on-chain with the proposer signer paying the gas,
+and waits for each receipt.
+
+Options:
+  --all-ready             Execute every ready transaction, in nonce order, starting at the
+                          Safe's current nonce
+  --json                  Print the executions as a JSON document on stdout, and everything
+                          else on stderr
+  --output <file>         Also write the JSON document to a file
+
+Examples:
+  npm run execute -- 0xabc...
+  npm run execute -- --all-ready
+  npm run execute -- --all-ready --output executions.json
+        `);
+    process.exit(exitCode);
+}
+
+function displayExecution(result: ExecutionResult, index: number): void {
+    console.log(`Transaction ${index + 1}:`);
+    console.log(`   Safe Tx Hash: ${result.safeTxHash}`);
+    console.log(`   Nonce: ${result.nonce}`);
+    console.log(`   On-chain Tx Hash: ${result.transactionHash}`);
+    console.log(`   Block: ${result.blockNumber ?? 'N/A'}`);
+    console.log(`   Gas Used: ${result.gasUsed ?? 'N/A'}`);
+    console.log(`   Status: ${result.status}`);
+    console.log('');
+}
+
+/**
+ * Execute the transactions one after the other, stopping after the first reverted one
+ */
+async function executeInOrder(
+    safeManager: SafeManager,
+    safeTxHashes: string[],
+    display: boolean,
+): Promise<ExecutionResult[]> {
+    const results: ExecutionResult[] = [];
+    for (const safeTxHash of safeTxHashes) {
+        const result = await safeManager.executeTransaction(safeTxHash);
+        results.push(result);
+        if (display) {
+            displayExecution(result, results.length - 1);
+        }
+
+        if (result.status === 'reverted') {
+            break;
+        }
+    }
+
+    return results;
+}
+
+async function main(): Promise<void> {
+    try {
+        const parsedArgs = parseCommandLineArgs();
+        const { output } = parsedArgs;
+
+        if (output.json) {
+            reserveStdoutForJson();
+        }
+
+        await validateEnvironment();
+
+        const safeManager = await SafeManager.create();
+        const safeTxHashes = parsedArgs.allReady
+            ? (await safeManager.getReadyTransactions()).map((tx) => tx.safeTxHash)
+            : parsedArgs.safeTxHashes;
+
+        if (safeTxHashes.length === 0) {
+            console.log('No ready transactions to execute.');
+        } else {
+            console.log(`Executing ${safeTxHashes.length} transaction(s)...`);
+            console.log('');
+        }
+
+        const results = await executeInOrder(safeManager, safeTxHashes, !output.json);
+
+        if (output.json || output.outputFile) {
+            const document = createOutput('executions', {
+                chainId: safeManager.getChainId(),
+                safeAddress: safeManager.getSafeAddress(),
+                executions: results,
+            });
+            writeOutput(document, output);
+        }
+        if (results.some((result) => result.status === 'reverted')) {
+            console.error('Execution reverted, stopping.');
+            process.exit(1);
+        }
+    } catch (error) {
+        console.error('Error executing transactions:', error);
+        process.exit(1);
+    }
+}
+
+if (require.main === module) {
+    void main();
+}
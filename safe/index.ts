@@ -3,7 +3,63 @@
  */
 
 export type { MetaTransactionData, OperationType } from '@safe-global/types-kit';
-export { getProposerConfig, getSafeConfig, validateEnvironment } from './config';
-export type { OwnerConfig, SafeConfig } from './config';
+export { CalldataDecoder, formatDecodedCall } from './calldata-decoder';
+export type { DecodedArgument, DecodedCall, DecodedSubCall } from './calldata-decoder';
+export {
+    findChainByRpcUrl,
+    formatChain,
+    getChain,
+    getExplorerTransactionUrl,
+    getKnownChains,
+    getSafeQueueUrl,
+    getSafeTransactionUrl,
+    registerChain,
+} from './chains';
+export type { ChainInfo, NativeCurrency } from './chains';
+export {
+    getActiveNetwork,
+    getProjectConfig,
+    getProposerConfig,
+    getSafeConfig,
+    loadProjectConfig,
+    selectNetwork,
+    validateEnvironment,
+} from './config';
+export type { NetworkConfig, OwnerConfig, ProjectConfig, SafeConfig } from './config';
+export { encodeDeployment } from './create-call';
+export type { BroadcastDeployment, DeploymentCall } from './create-call';
+export { formatDoctorReport, runDoctorChecks } from './doctor';
+export type { DoctorCheck, DoctorStatus } from './doctor';
+export { OUTPUT_SCHEMA_VERSION } from './json-output';
+export type {
+    DryRunOutput,
+    ListedTransaction,
+    ListingOutput,
+    OutputDocument,
+    ProposalsOutput,
+} from './json-output';
+export { enforcePolicy, findPolicyViolations, loadPolicy, resolvePolicyRules } from './policy';
+export type { PolicyCall, PolicyRules, PolicyViolation, TransactionPolicy } from './policy';
 export { SafeManager } from './safe-manager';
+export type { BundleSubmissionResult, RejectionResult, SafeManagerOptions } from './safe-manager';
+export {
+    DEFAULT_DERIVATION_PATH,
+    LocalSigner,
+    RemoteSigner,
+    getConfiguredSignerTypes,
+    loadSignerFromEnv,
+} from './signers';
+export type { ProtocolKitSignerConfig, SafeSigner, SignerType } from './signers';
+export {
+    hashBundle,
+    mergeBundles,
+    readBundle,
+    recoverBundleSigner,
+    signBundle,
+    verifyBundleHash,
+    writeBundle,
+} from './transaction-bundle';
+export type { BundleSignature, SafeTransactionBundle } from './transaction-bundle';
+export { TransactionSimulator } from './transaction-simulator';
+export type { SimulationEvent, SimulationResult } from './transaction-simulator';
 export * from './utils';
@@ -0,0 +1,227 @@
+import * as fs from 'fs';
+import { DecodedCall } from './calldata-decoder';
+import { DoctorCheck } from './doctor';
+import {
+    BundleSubmissionResult,
+    ConfirmationResult,
+    ExecutionResult,
+    RejectionResult,
+} from './safe-manager';
+import { PlannedTransaction, ProposalResult } from './transaction-executor';
+
+/**
+ * Version of the JSON documents below, bumped on any breaking change (removed or renamed field,
+ * changed type). Adding a field is not a breaking change.
+ */
+export const OUTPUT_SCHEMA_VERSION = 2;
+
+interface OutputHeader<K extends string> {
+    schemaVersion: typeof OUTPUT_SCHEMA_VERSION;
+    kind: K;
+    /** ISO 8601 date of the run */
+    generatedAt: string;
+}
+
+/** Safe transactions proposed (or reused from the queue) by `execute-tx` */
+export interface ProposalsOutput extends OutputHeader<'proposals'> {
+    proposals: ProposalResult[];
+}
+
+/** Safe transactions `execute-tx --dry-run` would propose */
+export interface DryRunOutput extends OutputHeader<'dry-run'> {
+    transactions: PlannedTransaction[];
+}
+
+/** A transaction of the Safe Transaction Service, as listed by `list-pending` */
+export interface ListedTransaction {
+    safeTxHash: string | null;
+    nonce: number | null;
+    to: string | null;
+    /** In wei */
+    value: string;
+    data: string | null;
+    /** Function call decoded from Foundry artifacts, when known */
+    decoded?: DecodedCall;
+    /** Owners who signed */
+    confirmations: string[];
+    confirmationsRequired: number | null;
+    status: 'executed' | 'ready' | 'pending';
+    submissionDate: string | null;
+    safeUrl?: string;
+}
+
+/** Transactions of a Safe listed by `list-pending` */
+export interface ListingOutput extends OutputHeader<'listing'> {
+    chainId: string;
+    safeAddress: string;
+    /** `--type` of the listing */
+    type: string;
+    /** Number of transactions listed, matching the filters */
+    count: number;
+    /** `--offset` listing the next matching transactions, null when all of them are listed */
+    nextOffset: number | null;
+    transactions: ListedTransaction[];
+}
+
+/** Confirmations submitted by `confirm-tx` */
+export interface ConfirmationsOutput extends OutputHeader<'confirmations'> {
+    chainId: string;
+    safeAddress: string;
+    confirmations: ConfirmationResult[];
+}
+
+/** Executions sent by `execute`, or awaited by `wait-for-execution` */
+export interface ExecutionsOutput extends OutputHeader<'executions'> {
+    chainId: string;
+    safeAddress: string;
+    /** In the order of execution; `execute` stops after a reverted one */
+    executions: ExecutionResult[];
+}
+
+/** Rejections proposed, or proposals deleted, by `reject` */
+export interface RejectionsOutput extends OutputHeader<'rejections'> {
+    chainId: string;
+    safeAddress: string;
+    rejections: RejectionResult[];
+    /** safeTxHashes removed from the service with `--delete` */
+    deleted: string[];
+}
+
+/** A bundle exported, signed or imported by `offline-sign` */
+export interface BundleOutput extends OutputHeader<'bundle'> {
+    command: 'export' | 'sign' | 'import';
+    chainId: string;
+    safeAddress: string;
+    safeTxHash: string;
+    nonce: number;
+    /** Owners whose signatures the bundle holds */
+    signers: string[];
+    /** Bundle file written by `export` and `sign` */
+    bundleFile?: string;
+    /** Outcome of `import` */
+    submission?: BundleSubmissionResult;
+}
+
+/** A delegate of the Safe, as listed by `delegates list` */
+export interface ListedDelegate {
+    delegate: string;
+    delegator: string;
+    label: string;
+}
+
+/** Whether the proposer may propose: as an owner, as a delegate, or not at all */
+export type ProposerRole = 'owner' | 'delegate' | 'none';
+
+/** Delegates listed, added or removed by `delegates` */
+export interface DelegatesOutput extends OutputHeader<'delegates'> {
+    command: 'list' | 'add' | 'remove';
+    chainId: string;
+    safeAddress: string;
+    /** Delegates of the Safe, listed by `list` */
+    delegates?: ListedDelegate[];
+    /** Proposer and whether it may propose, listed by `list` */
+    proposer?: { address: string; role: ProposerRole };
+    /** Delegate added or removed, and the owner who signed the request */
+    delegate?: string;
+    delegator?: string;
+}
+
+/** Setup checks of `doctor` */
+export interface DoctorOutput extends OutputHeader<'doctor'> {
+    /** False when a check failed */
+    passed: boolean;
+    checks: DoctorCheck[];
+}
+
+export type OutputDocument =
+    | ProposalsOutput
+    | DryRunOutput
+    | ListingOutput
+    | ConfirmationsOutput
+    | ExecutionsOutput
+    | RejectionsOutput
+    | BundleOutput
+    | DelegatesOutput
+    | DoctorOutput;
+
+/** Where a CLI writes its result document */
+export interface OutputOptions {
+    /** Print the document on stdout instead of the human-readable output */
+    json?: boolean;
+    /** Also write the document to this file */
+    outputFile?: string;
+}
+
+/**
+ * Take `--json` and `--output <file>` out of command line arguments, leaving the others (and an
+ * `--output` without a file, for the caller to report) in order
+ */
+export function parseOutputOptions(args: string[]): { args: string[]; output: OutputOptions } {
+    const rest: string[] = [];
+    const output: OutputOptions = {};
+
+    for (let i = 0; i < args.length; i++) {
+        if (args[i] === '--json') {
+            output.json = true;
+        } else if (args[i] === '--output' && args[i + 1] && !args[i + 1].startsWith('--')) {
+            output.outputFile = args[++i];
+        } else {
+            rest.push(args[i]);
+        }
+    }
+
+    return { args: rest, output };
+}
+
+// Original stdout writer, once stdout is reserved for the JSON document
+let writeStdout: typeof process.stdout.write | undefined;
+
+/**
+ * Send everything else written to stdout (console output, logs, forge) to stderr, so that
+ * stdout only holds the JSON document
+ */
+export function reserveStdoutForJson(): void {
+    if (writeStdout) {
+        return;
+    }
+
+    writeStdout = process.stdout.write.bind(process.stdout);
+    process.stdout.write = process.stderr.write.bind(process.stderr);
+}
+
+/**
+ * Check whether stdout is reserved for the JSON document, for child processes that write to
+ * the stdout file descriptor directly
+ */
+export function isStdoutReserved(): boolean {
+    return writeStdout !== undefined;
+}
+
+/**
+ * Add the schema header to a result
+ */
+export function createOutput<K extends OutputDocument['kind']>(
+    kind: K,
+    result: Omit<Extract<OutputDocument, { kind: K }>, keyof OutputHeader<K>>,
+): Extract<OutputDocument, { kind: K }> {
+    return {
+        schemaVersion: OUTPUT_SCHEMA_VERSION,
+        kind,
+        generatedAt: new Date().toISOString(),
+        ...result,
+    } as Extract<OutputDocument, { kind: K }>;
+}
+
+/**
+ * Print the document on stdout and/or write it to the output file
+ */
+export function writeOutput(document: OutputDocument, options: OutputOptions): void {
+    const content = `${JSON.stringify(document, (_key, value: unknown) => (typeof value === 'bigint' ? value.toString() : value), 2)}\n`;
+
+    if (options.outputFile) {
+        fs.writeFileSync(options.outputFile, content);
+    }
+    if (options.json) {
+        (writeStdout ?? process.stdout.write.bind(process.stdout))(content);
+    }
+}
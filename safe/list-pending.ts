@@ -1,54 +1,140 @@
 #!/usr/bin/env ts-node
 
-import { validateEnvironment } from './config';
+import { ListOptions } from '@safe-global/api-kit';
+import { CalldataDecoder } from './calldata-decoder';
+import { getChain, getSafeQueueUrl, getSafeTransactionUrl } from './chains';
+import { getProposerConfig, selectNetwork, validateEnvironment } from './config';
+import {
+    createOutput,
+    ListedTransaction,
+    ListingOutput,
+    reserveStdoutForJson,
+    writeOutput,
+} from './json-output';
 import { SafeManager } from './safe-manager';
-import { formatDate, formatWeiToEther, truncateData } from './utils';
+import { formatDate, formatWeiToEther } from './utils';
+import { Validator } from './validation';
+
+type TransactionType = 'pending' | 'all' | 'incoming' | 'multisig' | 'module';
+
+export interface ListingFilters {
+    nonceFrom?: number;
+    nonceTo?: number;
+    to?: string;
+    since?: Date;
+    until?: Date;
+    executed?: boolean;
+    missingMySignature?: boolean;
+}
 
 interface ListPendingArgs {
-    type?: 'pending' | 'all' | 'incoming' | 'multisig' | 'module';
-    limit?: string;
+    type?: TransactionType;
+    limit?: number;
+    offset?: number;
+    network?: string;
+    json?: boolean;
+    output?: string;
+    filters: ListingFilters;
 }
 
-interface TransactionResult {
+export interface TransactionResult {
     safeTxHash?: string;
+    nonce?: number | string;
     to?: string;
     value?: string;
-    data?: string;
+    data?: string | null;
     confirmations?: Array<{ owner?: string }>;
     confirmationsRequired?: number;
     isExecuted?: boolean;
     submissionDate?: string;
+    executionDate?: string | null;
+}
+
+/** What is listed, and for which Safe (links, currency display) */
+interface ListingContext {
+    chainId: string;
+    safeAddress: string;
+    transactionType: string;
+}
+
+/** The transactions matching the filters, up to `--limit` */
+export interface Listing {
+    transactions: TransactionResult[];
+    /** `--offset` listing the next matching transactions, when `--limit` was reached */
+    nextOffset: number | null;
 }
 
+const calldataDecoder = new CalldataDecoder();
+
+/**
+ * Command line options that take a value, mapped to the argument they set
+ */
+const VALUE_OPTIONS: Record<string, (parsedArgs: ListPendingArgs, value: string) => void> = {
+    '--type': (parsedArgs, value) => (parsedArgs.type = value as TransactionType),
+    '--limit': (parsedArgs, value) => (parsedArgs.limit = parseCount(value, '--limit')),
+    '--offset': (parsedArgs, value) => (parsedArgs.offset = parseCount(value, '--offset')),
+    '--network': (parsedArgs, value) => (parsedArgs.network = value),
+    '--output': (parsedArgs, value) => (parsedArgs.output = value),
+    '--nonce-from': (parsedArgs, value) =>
+        (parsedArgs.filters.nonceFrom = parseCount(value, '--nonce-from')),
+    '--nonce-to': (parsedArgs, value) =>
+        (parsedArgs.filters.nonceTo = parseCount(value, '--nonce-to')),
+    '--to': (parsedArgs, value) => (parsedArgs.filters.to = value),
+    '--since': (parsedArgs, value) => (parsedArgs.filters.since = parseDate(value, '--since')),
+    '--until': (parsedArgs, value) => (parsedArgs.filters.until = parseDate(value, '--until')),
+};
+
+/**
+ * Command line switches, mapped to the argument they set
+ */
+const SWITCH_OPTIONS: Record<string, (parsedArgs: ListPendingArgs) => void> = {
+    '--json': (parsedArgs) => (parsedArgs.json = true),
+    '--executed': (parsedArgs) => (parsedArgs.filters.executed = true),
+    '--unexecuted': (parsedArgs) => (parsedArgs.filters.executed = false),
+    '--missing-my-signature': (parsedArgs) => (parsedArgs.filters.missingMySignature = true),
+};
+
 function parseCommandLineArgs(): ListPendingArgs {
     const args = process.argv.slice(2);
-    const parsedArgs: ListPendingArgs = {};
+    const parsedArgs: ListPendingArgs = { filters: {} };
 
-    for (let i = 0; i < args.length; i += 2) {
+    if (args.includes('--help')) {
+        showHelpAndExit();
+    }
+
+    for (let i = 0; i < args.length; i++) {
         const key = args[i];
-        const value = args[i + 1];
-
-        switch (key) {
-            case '--type':
-                parsedArgs.type = value as 'pending' | 'all' | 'incoming' | 'multisig' | 'module';
-                break;
-            case '--limit':
-                parsedArgs.limit = value;
-                break;
-            case '--help':
-                showHelpAndExit();
-                break;
-            default:
-                if (key.startsWith('--')) {
-                    console.error(`Unknown argument: ${key}`);
-                    process.exit(1);
-                }
+
+        if (Object.prototype.hasOwnProperty.call(VALUE_OPTIONS, key) && args[i + 1] !== undefined) {
+            VALUE_OPTIONS[key](parsedArgs, args[++i]);
+        } else if (Object.prototype.hasOwnProperty.call(SWITCH_OPTIONS, key)) {
+            SWITCH_OPTIONS[key](parsedArgs);
+        } else if (key.startsWith('--')) {
+            console.error(`Unknown or incomplete argument: ${key}`);
+            process.exit(1);
         }
     }
 
     return parsedArgs;
 }
 
+function parseCount(value: string, option: string): number {
+    if (!/^\d+$/.test(value)) {
+        console.error(`${option} must be a non-negative integer, got ${value}`);
+        process.exit(1);
+    }
+    return Number(value);
+}
+
+function parseDate(value: string, option: string): Date {
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+        console.error(`${option} must be a date such as 2025-01-31 or 2025-01-31T12:00:00Z`);
+        process.exit(1);
+    }
+    return date;
+}
+
 function showHelpAndExit(): void {
     console.log(`
 Usage: npm run list-pending [options]
@@ -60,43 +146,141 @@ Options:
                           - incoming: Incoming transactions
                           - multisig: Multisig transactions
                           - module: Module transactions
-  --limit <number>        Limit number of results
+  --limit <number>        List at most this many transactions, fetched by pages of this size
+                          (default: every transaction, following the service pages)
+  --offset <number>       Skip this many transactions of the service listing, before filtering
+  --network <name>        Network of the project configuration file (safe.config.json/yaml)
+  --json                  Print the transactions as a JSON document on stdout, and everything
+                          else on stderr
+  --output <file>         Also write the JSON document to a file
+
+Filters:
+  --nonce-from <nonce>    Only transactions with a nonce greater than or equal to this one
+  --nonce-to <nonce>      Only transactions with a nonce lower than or equal to this one
+  --to <address>          Only transactions calling this target address
+  --since <date>          Only transactions submitted (or executed) at or after this date
+  --until <date>          Only transactions submitted (or executed) at or before this date
+  --executed              Only executed transactions
+  --unexecuted            Only transactions not executed yet
+  --missing-my-signature  Only unexecuted multisig transactions the proposer has not signed
 
 Examples:
   npm run list-pending
   npm run list-pending -- --type all
   npm run list-pending -- --type pending --limit 10
+  npm run list-pending -- --type multisig --limit 10 --offset 10
+  npm run list-pending -- --type multisig --unexecuted --nonce-from 40 --nonce-to 45
+  npm run list-pending -- --missing-my-signature --to 0xabc...
+  npm run list-pending -- --type all --since 2025-01-01 --until 2025-01-31
+  npm run list-pending -- --network arbitrum
+  npm run list-pending -- --json > pending.json
         `);
     process.exit(0);
 }
 
-async function fetchTransactions(
+function iterateTransactions(
     safeManager: SafeManager,
     transactionType: string,
-): Promise<{ results?: unknown[]; count?: number } | undefined> {
+    page: ListOptions,
+): AsyncIterable<TransactionResult> {
     switch (transactionType) {
         case 'pending':
-            return await safeManager.getPendingTransactions();
+            return safeManager.iteratePendingTransactions(page);
         case 'all':
-            return await safeManager.getAllTransactions();
+            return safeManager.iterateAllTransactions(page);
         case 'incoming':
-            return await safeManager.getIncomingTransactions();
+            return safeManager.iterateIncomingTransactions(page);
         case 'multisig':
-            return await safeManager.getMultisigTransactions();
+            return safeManager.iterateMultisigTransactions(page);
         case 'module':
-            return await safeManager.getModuleTransactions();
+            return safeManager.iterateModuleTransactions(page);
         default:
             console.error(`Unknown transaction type: ${transactionType}`);
             process.exit(1);
     }
 }
 
-function displayTransaction(tx: TransactionResult, index: number): void {
+/**
+ * Build the predicate of the filters set on the command line
+ */
+export async function buildFilter(
+    filters: ListingFilters,
+): Promise<(tx: TransactionResult) => boolean> {
+    const { nonceFrom, nonceTo, to, since, until, executed } = filters;
+    const nonceOf = (tx: TransactionResult): number =>
+        tx.nonce === undefined ? NaN : Number(tx.nonce);
+    const dateOf = (tx: TransactionResult): number =>
+        new Date(tx.submissionDate ?? tx.executionDate ?? NaN).getTime();
+    const checks: Array<(tx: TransactionResult) => boolean> = [];
+
+    if (nonceFrom !== undefined) {
+        checks.push((tx) => nonceOf(tx) >= nonceFrom);
+    }
+    if (nonceTo !== undefined) {
+        checks.push((tx) => nonceOf(tx) <= nonceTo);
+    }
+    if (to) {
+        Validator.validateAddress(to, '--to');
+        checks.push((tx) => tx.to?.toLowerCase() === to.toLowerCase());
+    }
+    if (since) {
+        checks.push((tx) => dateOf(tx) >= since.getTime());
+    }
+    if (until) {
+        checks.push((tx) => dateOf(tx) <= until.getTime());
+    }
+    if (executed !== undefined) {
+        // Transfers and module transactions are listed once executed
+        checks.push((tx) => (tx.isExecuted ?? true) === executed);
+    }
+    if (filters.missingMySignature) {
+        const signer = (await getProposerConfig()).address.toLowerCase();
+        checks.push(
+            (tx) =>
+                tx.isExecuted === false &&
+                !(tx.confirmations ?? []).some(
+                    (confirmation) => confirmation.owner?.toLowerCase() === signer,
+                ),
+        );
+    }
+
+    return (tx) => checks.every((check) => check(tx));
+}
+
+/**
+ * Read the listing page by page until `limit` transactions match the filters
+ */
+export async function collectTransactions(
+    transactions: AsyncIterable<TransactionResult>,
+    matches: (tx: TransactionResult) => boolean,
+    { limit, offset = 0 }: ListOptions,
+): Promise<Listing> {
+    const listed: TransactionResult[] = [];
+    let read = 0;
+
+    for await (const tx of transactions) {
+        if (matches(tx)) {
+            if (listed.length === limit) {
+                return { transactions: listed, nextOffset: offset + read };
+            }
+            listed.push(tx);
+        }
+        read++;
+    }
+
+    return { transactions: listed, nextOffset: null };
+}
+
+function displayTransaction(tx: TransactionResult, index: number, context: ListingContext): void {
     console.log(`Transaction ${index + 1}:`);
     console.log(`   Hash: ${tx.safeTxHash || 'N/A'}`);
+    if (tx.nonce !== undefined) {
+        console.log(`   Nonce: ${tx.nonce}`);
+    }
+    displaySafeLink(tx, context);
     console.log(`   To: ${tx.to || 'N/A'}`);
-    console.log(`   Value: ${formatWeiToEther(tx.value || '0')} ETH (${tx.value || '0'} wei)`);
-    console.log(`   Data: ${truncateData(tx.data || '')}`);
+    console.log(`   Value: ${formatValue(tx.value || '0', context.chainId)}`);
+    calldataDecoder.describe(tx.to || '', tx.data || '').forEach((line) => console.log(line));
     console.log(
         `   Confirmations: ${tx.confirmations?.length || 0}/${tx.confirmationsRequired || 'N/A'}`,
     );
@@ -109,6 +293,19 @@ function displayTransaction(tx: TransactionResult, index: number): void {
     console.log('');
 }
 
+function formatValue(value: string, chainId: string): string {
+    const currency = getChain(chainId)?.nativeCurrency.symbol ?? 'ETH';
+    return `${formatWeiToEther(value)} ${currency} (${value} wei)`;
+}
+
+function displaySafeLink(tx: TransactionResult, context: ListingContext): void {
+    const safeUrl =
+        tx.safeTxHash && getSafeTransactionUrl(context.chainId, context.safeAddress, tx.safeTxHash);
+    if (safeUrl) {
+        console.log(`   Safe{Wallet}: ${safeUrl}`);
+    }
+}
+
 function displayConfirmations(confirmations?: Array<{ owner?: string }>): void {
     if (confirmations && confirmations.length > 0) {
         console.log(`   Confirmed by:`);
@@ -118,6 +315,32 @@ function displayConfirmations(confirmations?: Array<{ owner?: string }>): void {
     }
 }
 
+function toListedTransaction(tx: TransactionResult, context: ListingContext): ListedTransaction {
+    return {
+        safeTxHash: tx.safeTxHash ?? null,
+        nonce: tx.nonce === undefined ? null : Number(tx.nonce),
+        to: tx.to ?? null,
+        value: tx.value || '0',
+        data: tx.data ?? null,
+        confirmations: (tx.confirmations ?? []).map((confirmation) => confirmation.owner ?? ''),
+        confirmationsRequired: tx.confirmationsRequired ?? null,
+        status: determineExecutionStatus(tx).toLowerCase() as ListedTransaction['status'],
+        submissionDate: tx.submissionDate ?? null,
+        ...describeListedCall(tx, context),
+    };
+}
+
+function describeListedCall(
+    tx: TransactionResult,
+    context: ListingContext,
+): Pick<ListedTransaction, 'decoded' | 'safeUrl'> {
+    const decoded = tx.to && tx.data ? calldataDecoder.decode(tx.to, tx.data) : undefined;
+    const safeUrl =
+        tx.safeTxHash && getSafeTransactionUrl(context.chainId, context.safeAddress, tx.safeTxHash);
+
+    return { ...(decoded && { decoded }), ...(safeUrl && { safeUrl }) };
+}
+
 function determineExecutionStatus(tx: TransactionResult): string {
     if (tx.isExecuted) {
         return 'Executed';
@@ -129,68 +352,96 @@ function determineExecutionStatus(tx: TransactionResult): string {
     return confirmationsCount >= requiredConfirmations ? 'Ready' : 'Pending';
 }
 
-function displayTransactionsSummary(
-    results: TransactionResult[],
-    transactionsToShow: TransactionResult[],
-    transactions: { count?: number },
-    transactionType: string,
-    limit: number,
-): void {
-    console.log(
-        `Found ${results.length} ${transactionType} transaction(s) (showing ${transactionsToShow.length}):`,
-    );
+function displayListing(listing: Listing, context: ListingContext): void {
+    const { transactions, nextOffset } = listing;
+    const { transactionType } = context;
+
+    if (transactions.length === 0) {
+        console.log(`No ${transactionType} transactions found.`);
+        return;
+    }
+
+    console.log(`Found ${transactions.length} ${transactionType} transaction(s):`);
     console.log('');
 
-    transactionsToShow.forEach(displayTransaction);
+    transactions.forEach((tx, index) => displayTransaction(tx, index, context));
 
-    if (results.length > limit) {
-        console.log(`... and ${results.length - limit} more transaction(s).`);
-        console.log(`Use --limit ${results.length} to see all transactions.`);
+    if (nextOffset !== null) {
+        console.log(`More transactions match: use --offset ${nextOffset} to see the next ones.`);
     }
 
-    console.log(`Total count: ${transactions.count || results.length}`);
+    if (transactionType === 'pending') {
+        displayConfirmHint(context);
+    }
+}
 
-    if (transactionType === 'pending' && transactionsToShow.length > 0) {
-        console.log('');
-        console.log('To confirm pending transactions, use the Safe web interface');
-        console.log('   Visit: https://app.safe.global/');
+function displayConfirmHint(context: ListingContext): void {
+    const queueUrl = getSafeQueueUrl(context.chainId, context.safeAddress);
+
+    console.log('');
+    console.log('To confirm pending transactions with the proposer signer:');
+    console.log('   npm run confirm-tx -- <safeTxHash>');
+    if (queueUrl) {
+        console.log(`   or in Safe{Wallet}: ${queueUrl}`);
     }
 }
 
+function writeListing(
+    listing: Listing,
+    parsedArgs: ListPendingArgs,
+    context: ListingContext,
+): void {
+    const document: ListingOutput = createOutput('listing', {
+        chainId: context.chainId,
+        safeAddress: context.safeAddress,
+        type: context.transactionType,
+        count: listing.transactions.length,
+        nextOffset: listing.nextOffset,
+        transactions: listing.transactions.map((tx) => toListedTransaction(tx, context)),
+    });
+    writeOutput(document, { json: parsedArgs.json, outputFile: parsedArgs.output });
+}
+
 async function main(): Promise<void> {
     const parsedArgs = parseCommandLineArgs();
 
     try {
+        if (parsedArgs.json) {
+            reserveStdoutForJson();
+        }
+        if (parsedArgs.network) {
+            selectNetwork(parsedArgs.network);
+        }
+
         await validateEnvironment();
 
         const safeManager = await SafeManager.create();
         const transactionType = parsedArgs.type || 'pending';
+        const context: ListingContext = {
+            chainId: safeManager.getChainId(),
+            safeAddress: safeManager.getSafeAddress(),
+            transactionType,
+        };
+        const matches = await buildFilter(parsedArgs.filters);
 
         console.log(`Fetching ${transactionType} transactions...`);
         console.log('');
 
-        const transactions = await fetchTransactions(safeManager, transactionType);
-
-        if (
-            !transactions ||
-            !Array.isArray(transactions.results) ||
-            transactions.results.length === 0
-        ) {
-            console.log(`No ${transactionType} transactions found.`);
-            return;
-        }
+        const page = { limit: parsedArgs.limit, offset: parsedArgs.offset };
+        const listing = await collectTransactions(
+            iterateTransactions(safeManager, transactionType, page),
+            matches,
+            page,
+        );
 
-        const results = transactions.results as TransactionResult[];
-        const limit = parsedArgs.limit ? parseInt(parsedArgs.limit) : results.length;
-        const transactionsToShow = results.slice(0, limit);
+        calldataDecoder.loadFoundryArtifacts();
 
-        displayTransactionsSummary(
-            results,
-            transactionsToShow,
-            transactions,
-            transactionType,
-            limit,
-        );
+        if (parsedArgs.json || parsedArgs.output) {
+            writeListing(listing, parsedArgs, context);
+        }
+        if (!parsedArgs.json) {
+            displayListing(listing, context);
+        }
     } catch (error) {
         console.error('Error fetching transactions:', error);
         process.exit(1);
@@ -0,0 +1,237 @@
+#!/usr/bin/env ts-node
+
+import { CalldataDecoder } from './calldata-decoder';
+import { validateEnvironment } from './config';
+import {
+    BundleOutput,
+    createOutput,
+    OutputOptions,
+    parseOutputOptions,
+    reserveStdoutForJson,
+    writeOutput,
+} from './json-output';
+import { BundleSubmissionResult, SafeManager } from './safe-manager';
+import { loadSignerFromEnv } from './signers';
+import {
+    mergeBundles,
+    readBundle,
+    SafeTransactionBundle,
+    signBundle,
+    verifyBundleHash,
+    writeBundle,
+} from './transaction-bundle';
+import { parseSafeTxHashes } from './utils';
+import { Validator } from './validation';
+
+type OfflineCommand = 'export' | 'sign' | 'import';
+
+interface OfflineArgs {
+    command: OfflineCommand;
+    targets: string[];
+    /** Bundle file written by export and sign */
+    bundleOut?: string;
+    output: OutputOptions;
+}
+
+const COMMANDS: OfflineCommand[] = ['export', 'sign', 'import'];
+
+function parseCommandLineArgs(): OfflineArgs {
+    const { args, output } = parseOutputOptions(process.argv.slice(2));
+
+    if (args.length === 0 || args.includes('--help')) {
+        showHelpAndExit(args.length === 0 ? 1 : 0);
+    }
+
+    const [command, ...rest] = args;
+    if (!COMMANDS.includes(command as OfflineCommand)) {
+        console.error(`Unknown command: ${command}`);
+        process.exit(1);
+    }
+
+    const parsedArgs = { command: command as OfflineCommand, ...parseTargets(rest), output };
+    if (parsedArgs.targets.length === 0) {
+        console.error(`Missing ${command === 'export' ? 'safeTxHash' : 'bundle file'}`);
+        process.exit(1);
+    }
+
+    return parsedArgs;
+}
+
+function parseTargets(args: string[]): Pick<OfflineArgs, 'targets' | 'bundleOut'> {
+    const targets: string[] = [];
+    let bundleOut: string | undefined;
+    for (let i = 0; i < args.length; i++) {
+        if (args[i] === '--bundle-out' && args[i + 1]) {
+            bundleOut = args[++i];
+        } else if (args[i].startsWith('--')) {
+            console.error(`Unknown argument: ${args[i]}`);
+            process.exit(1);
+        } else {
+            targets.push(args[i]);
+        }
+    }
+
+    return { targets, bundleOut };
+}
+
+function showHelpAndExit(exitCode: number): void {
+    console.log(`
+Usage: npm run offline-sign -- export <safeTxHash> [--bundle-out <file>] [--json] [--output <file>]
+       npm run offline-sign -- sign <bundle.json> [--bundle-out <file>] [--json] [--output <file>]
+       npm run offline-sign -- import <bundle.json> [<bundle.json> ...] [--json] [--output <file>]
+
+Commands:
+  export    Write a pending Safe transaction (EIP-712 domain, message, safeTxHash, nonce)
+            to a JSON bundle. Defaults to safe-tx-<nonce>-<hash prefix>.json
+  sign      Sign a bundle with the SIGNER_* signer (SIGNER_PRIVATE_KEY, SIGNER_KEYSTORE with
+            SIGNER_PASSWORD_FILE, or SIGNER_MNEMONIC). Needs no network access and no Safe
+            configuration; the signed bundle overwrites the input unless --bundle-out is given
+  import    Verify the signatures of one or more copies of a bundle and submit them to the
+            Safe Transaction Service, proposing the transaction if it is not queued yet
+
+Options:
+  --bundle-out <file>  Bundle file written by export and sign
+  --json               Print the bundle summary (and the submission of import) as a JSON
+                       document on stdout, and everything else on stderr
+  --output <file>      Also write the JSON document to a file
+
+Examples:
+  npm run offline-sign -- export 0xabc... --bundle-out tx.json
+  SIGNER_KEYSTORE=alice SIGNER_PASSWORD_FILE=./pw npm run offline-sign -- sign tx.json
+  npm run offline-sign -- import tx-alice.json tx-bob.json
+        `);
+    process.exit(exitCode);
+}
+
+function displayBundle(bundle: SafeTransactionBundle): void {
+    const { message } = bundle;
+    const decoder = new CalldataDecoder();
+    decoder.loadFoundryArtifacts();
+
+    console.log(`Safe: ${bundle.safeAddress} (chain ${bundle.chainId}, v${bundle.safeVersion})`);
+    console.log(`Safe Tx Hash: ${bundle.safeTxHash}`);
+    console.log(`Nonce: ${bundle.nonce}`);
+    console.log(`   To: ${message.to}`);
+    console.log(`   Value: ${message.value}`);
+    console.log(`   Operation: ${Number(message.operation) === 1 ? 'delegatecall' : 'call'}`);
+    decoder.describe(message.to, message.data).forEach((line) => console.log(line));
+    console.log(`Signatures: ${bundle.signatures.length}`);
+    bundle.signatures.forEach((signature) => console.log(`   ${signature.signer}`));
+    console.log('');
+}
+
+/**
+ * Write the JSON document of a bundle, with --json or --output
+ */
+function writeBundleOutput(
+    command: OfflineCommand,
+    bundle: SafeTransactionBundle,
+    result: Pick<BundleOutput, 'bundleFile' | 'submission'>,
+    output: OutputOptions,
+): void {
+    if (!output.json && !output.outputFile) {
+        return;
+    }
+
+    const document = createOutput('bundle', {
+        command,
+        chainId: bundle.chainId,
+        safeAddress: bundle.safeAddress,
+        safeTxHash: bundle.safeTxHash,
+        nonce: bundle.nonce,
+        signers: bundle.signatures.map((signature) => signature.signer),
+        ...result,
+    });
+    writeOutput(document, output);
+}
+
+function displaySubmission(result: BundleSubmissionResult): void {
+    console.log(`Safe Tx Hash: ${result.safeTxHash}`);
+    console.log(`   Status: ${result.status === 'proposed' ? 'Proposed' : 'Confirmed'}`);
+    console.log(
+        `   Submitted signers: ${result.submittedSigners.join(', ') || 'none (all known)'}`,
+    );
+    console.log(`   Confirmations: ${result.confirmations}/${result.confirmationsRequired}`);
+}
+
+async function exportBundle(parsedArgs: OfflineArgs): Promise<void> {
+    const [safeTxHash] = parseSafeTxHashes(parsedArgs.targets.join(' '));
+    Validator.validateHexString(safeTxHash, 'safeTxHash', 64);
+
+    await validateEnvironment();
+    const safeManager = await SafeManager.create({ simulate: false });
+    const bundle = await safeManager.exportTransactionBundle(safeTxHash);
+
+    const bundleFile =
+        parsedArgs.bundleOut || `safe-tx-${bundle.nonce}-${bundle.safeTxHash.slice(2, 10)}.json`;
+    writeBundle(bundleFile, bundle);
+
+    writeBundleOutput('export', bundle, { bundleFile }, parsedArgs.output);
+    if (parsedArgs.output.json) {
+        return;
+    }
+    displayBundle(bundle);
+    console.log(`Bundle written to ${bundleFile}`);
+}
+
+async function signBundleFile(parsedArgs: OfflineArgs): Promise<void> {
+    const signer = await loadSignerFromEnv('SIGNER');
+    const [bundlePath] = parsedArgs.targets;
+    const bundle = readBundle(bundlePath);
+    verifyBundleHash(bundle);
+    if (!parsedArgs.output.json) {
+        displayBundle(bundle);
+    }
+
+    const signed = await signBundle(bundle, signer.toEthersSigner());
+    const bundleFile = parsedArgs.bundleOut || bundlePath;
+    writeBundle(bundleFile, signed);
+
+    writeBundleOutput('sign', signed, { bundleFile }, parsedArgs.output);
+    if (parsedArgs.output.json) {
+        return;
+    }
+    console.log(`Signed by ${signer.address}, bundle written to ${bundleFile}`);
+}
+
+async function importBundles(parsedArgs: OfflineArgs): Promise<void> {
+    const bundle = mergeBundles(parsedArgs.targets.map(readBundle));
+    if (!parsedArgs.output.json) {
+        displayBundle(bundle);
+    }
+
+    await validateEnvironment();
+    const safeManager = await SafeManager.create({ simulate: false, chainId: bundle.chainId });
+    const submission = await safeManager.submitBundleSignatures(bundle);
+
+    writeBundleOutput('import', bundle, { submission }, parsedArgs.output);
+    if (parsedArgs.output.json) {
+        return;
+    }
+    displaySubmission(submission);
+}
+
+async function main(): Promise<void> {
+    const parsedArgs = parseCommandLineArgs();
+
+    try {
+        if (parsedArgs.output.json) {
+            reserveStdoutForJson();
+        }
+
+        if (parsedArgs.command === 'export') {
+            await exportBundle(parsedArgs);
+        } else if (parsedArgs.command === 'sign') {
+            await signBundleFile(parsedArgs);
+        } else {
+            await importBundles(parsedArgs);
+        }
+    } catch (error) {
+        console.error(`Error running offline-sign ${parsedArgs.command}:`, error);
+        process.exit(1);
+    }
+}
+
+if (require.main === module) {
+    void main();
+}
@@ -0,0 +1,278 @@
+import { ethers } from 'ethers';
+import * as fs from 'fs';
+import * as yaml from 'js-yaml';
+import { formatChain } from './chains';
+import { ConfigurationError, ErrorCode, ValidationError } from './errors';
+import { logger } from './logger';
+
+/** Rules of a policy file, for every chain or for one chain. Addresses are lowercase. */
+export interface PolicyRules {
+    /** Targets calls may be made to, any target when unset */
+    allowedTargets?: string[];
+    /** Function selectors allowed per target; targets without an entry accept any function */
+    allowedSelectors?: Record<string, string[]>;
+    /** Largest native value a single call may transfer, in wei */
+    maxNativeValue?: bigint;
+    /** Targets that may be delegatecalled; no delegatecall is allowed when unset */
+    delegatecallAllowlist?: string[];
+}
+
+export interface TransactionPolicy extends PolicyRules {
+    path: string;
+    /** Rules replacing the top-level ones on a chain, keyed by chain ID */
+    chains: Record<string, PolicyRules>;
+}
+
+/** A call checked against the policy, before calls are batched into a MultiSend */
+export interface PolicyCall {
+    to: string;
+    /** In wei */
+    value: string;
+    data: string;
+    operation?: 'call' | 'delegatecall';
+}
+
+export interface PolicyViolation {
+    /** Position of the call in the broadcast */
+    index: number;
+    to: string;
+    reasons: string[];
+}
+
+type RuleParser = (value: unknown, key: string, errors: string[]) => PolicyRules[keyof PolicyRules];
+
+const RULE_PARSERS: Record<keyof PolicyRules, RuleParser> = {
+    allowedTargets: parseAddressList,
+    allowedSelectors: parseSelectorMap,
+    maxNativeValue: parseNativeValue,
+    delegatecallAllowlist: parseAddressList,
+};
+
+type RuleCheck = (rules: PolicyRules, call: PolicyCall) => string | undefined;
+
+const checkTarget: RuleCheck = ({ allowedTargets }, call) =>
+    allowedTargets && !allowedTargets.includes(call.to.toLowerCase())
+        ? 'target is not in allowedTargets'
+        : undefined;
+
+const checkSelector: RuleCheck = ({ allowedSelectors }, call) => {
+    const selectors = allowedSelectors?.[call.to.toLowerCase()];
+    const selector = call.data.slice(0, 10).toLowerCase();
+    // Plain transfers carry no selector and are bounded by maxNativeValue
+    return selectors && call.data.length >= 10 && !selectors.includes(selector)
+        ? `function ${selector} is not in allowedSelectors of this target`
+        : undefined;
+};
+
+const checkValue: RuleCheck = ({ maxNativeValue }, call) =>
+    maxNativeValue !== undefined && BigInt(call.value || '0') > maxNativeValue
+        ? `value ${ethers.formatEther(call.value || '0')} exceeds maxNativeValue ${ethers.formatEther(maxNativeValue)}`
+        : undefined;
+
+const checkDelegatecall: RuleCheck = ({ delegatecallAllowlist = [] }, call) =>
+    call.operation === 'delegatecall' && !delegatecallAllowlist.includes(call.to.toLowerCase())
+        ? 'delegatecall to a target not in delegatecallAllowlist'
+        : undefined;
+
+const RULE_CHECKS: RuleCheck[] = [checkTarget, checkSelector, checkValue, checkDelegatecall];
+
+/**
+ * Load and validate a transaction policy file (JSON or YAML)
+ */
+export function loadPolicy(policyPath: string): TransactionPolicy {
+    const content = readPolicyFile(policyPath);
+    if (!isObject(content)) {
+        throw new ConfigurationError(`${policyPath} must be an object of policy rules`, {
+            policyPath,
+        });
+    }
+
+    const errors: string[] = [];
+    const { chains, ...rules } = content;
+    const policy: TransactionPolicy = {
+        path: policyPath,
+        ...parseRules(rules, '', errors),
+        chains: {},
+    };
+
+    if (chains !== undefined && !isObject(chains)) {
+        errors.push('chains must be an object keyed by chain ID');
+    }
+    for (const [chainId, chainRules] of Object.entries(isObject(chains) ? chains : {})) {
+        if (!/^\d+$/.test(chainId) || !isObject(chainRules)) {
+            errors.push(`chains.${chainId} must be rules keyed by a chain ID`);
+            continue;
+        }
+        policy.chains[chainId] = parseRules(chainRules, `chains.${chainId}.`, errors);
+    }
+
+    if (errors.length > 0) {
+        throw new ConfigurationError(`Invalid transaction policy ${policyPath}`, {
+            policyPath,
+            validationErrors: errors,
+        });
+    }
+
+    return policy;
+}
+
+/**
+ * Rules applying on a chain: the top-level rules, with those its `chains` entry sets replaced
+ */
+export function resolvePolicyRules(policy: TransactionPolicy, chainId: string): PolicyRules {
+    const { allowedTargets, allowedSelectors, maxNativeValue, delegatecallAllowlist } = policy;
+    return {
+        allowedTargets,
+        allowedSelectors,
+        maxNativeValue,
+        delegatecallAllowlist,
+        ...policy.chains[chainId],
+    };
+}
+
+/**
+ * Check calls against policy rules
+ */
+export function findPolicyViolations(rules: PolicyRules, calls: PolicyCall[]): PolicyViolation[] {
+    return calls.flatMap((call, index) => {
+        const reasons = RULE_CHECKS.map((check) => check(rules, call)).filter(
+            (reason): reason is string => reason !== undefined,
+        );
+        return reasons.length > 0 ? [{ index, to: call.to, reasons }] : [];
+    });
+}
+
+/**
+ * Ensure the calls proposed to a chain comply with the policy
+ *
+ * @throws ValidationError listing every offending call
+ */
+export function enforcePolicy(
+    policy: TransactionPolicy,
+    chainId: string,
+    calls: PolicyCall[],
+): void {
+    const violations = findPolicyViolations(resolvePolicyRules(policy, chainId), calls);
+
+    if (violations.length > 0) {
+        const details = violations.map(
+            (violation) =>
+                `  - call ${violation.index + 1} to ${violation.to}: ${violation.reasons.join('; ')}`,
+        );
+        throw new ValidationError(
+            `Transaction policy ${policy.path} rejects ${violations.length} of ${calls.length} call(s) on ${formatChain(chainId)}:\n${details.join('\n')}`,
+            ErrorCode.POLICY_VIOLATION,
+            { policyPath: policy.path, chainId, violations },
+        );
+    }
+
+    logger.info('Transactions comply with the policy', {
+        policyPath: policy.path,
+        chainId,
+        callCount: calls.length,
+    });
+}
+
+function readPolicyFile(policyPath: string): unknown {
+    try {
+        const text = fs.readFileSync(policyPath, 'utf8');
+        return /\.ya?ml$/i.test(policyPath) ? yaml.load(text) : JSON.parse(text);
+    } catch (error) {
+        throw new ConfigurationError(`Could not read transaction policy ${policyPath}`, {
+            policyPath,
+            error: (error as Error).message,
+        });
+    }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function parseRules(
+    settings: Record<string, unknown>,
+    prefix: string,
+    errors: string[],
+): PolicyRules {
+    const rules: Record<string, unknown> = {};
+
+    for (const [key, value] of Object.entries(settings)) {
+        const parse = RULE_PARSERS[key as keyof PolicyRules] as RuleParser | undefined;
+        if (!parse) {
+            errors.push(`${prefix}${key} is not a policy rule`);
+        } else if (value !== undefined && value !== null) {
+            rules[key] = parse(value, `${prefix}${key}`, errors);
+        }
+    }
+
+    return rules as PolicyRules;
+}
+
+function parseAddressList(value: unknown, key: string, errors: string[]): string[] {
+    if (!Array.isArray(value)) {
+        errors.push(`${key} must be a list of addresses`);
+        return [];
+    }
+
+    return value.flatMap((address: unknown) => {
+        if (typeof address !== 'string' || !ethers.isAddress(address)) {
+            errors.push(`${key}: ${String(address)} is not an address`);
+            return [];
+        }
+        return [address.toLowerCase()];
+    });
+}
+
+/**
+ * Selectors are given as 4-byte hex (`0xa9059cbb`) or function signatures (`transfer(address,uint256)`)
+ */
+function parseSelectorMap(value: unknown, key: string, errors: string[]): Record<string, string[]> {
+    if (!isObject(value)) {
+        errors.push(`${key} must map target addresses to lists of selectors`);
+        return {};
+    }
+
+    const selectors: Record<string, string[]> = {};
+    for (const [target, entries] of Object.entries(value)) {
+        if (!ethers.isAddress(target) || !Array.isArray(entries)) {
+            errors.push(`${key}.${target} must be a list of selectors keyed by a target address`);
+            continue;
+        }
+        selectors[target.toLowerCase()] = entries.flatMap((entry: unknown) => {
+            const selector = toSelector(entry);
+            if (!selector) {
+                errors.push(`${key}.${target}: ${String(entry)} is not a selector or signature`);
+            }
+            return selector ? [selector] : [];
+        });
+    }
+
+    return selectors;
+}
+
+function toSelector(entry: unknown): string | undefined {
+    if (typeof entry !== 'string') {
+        return undefined;
+    }
+    if (/^0x[0-9a-fA-F]{8}$/.test(entry)) {
+        return entry.toLowerCase();
+    }
+
+    try {
+        return ethers.FunctionFragment.from(entry).selector;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * The maximum value is given in native currency units, as in `"1.5"`
+ */
+function parseNativeValue(value: unknown, key: string, errors: string[]): bigint | undefined {
+    try {
+        return ethers.parseEther(String(value as string | number));
+    } catch {
+        errors.push(`${key} must be an amount of native currency, such as "1.5"`);
+        return undefined;
+    }
+}
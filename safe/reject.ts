@@ -0,0 +1,137 @@
+#!/usr/bin/env ts-node
+
+import { validateEnvironment } from './config';
+import {
+    createOutput,
+    OutputOptions,
+    parseOutputOptions,
+    reserveStdoutForJson,
+    writeOutput,
+} from './json-output';
+import { RejectionResult, SafeManager } from './safe-manager';
+import { parseSafeTxHashes } from './utils';
+import { Validator } from './validation';
+
+interface RejectArgs {
+    /** safeTxHashes and/or nonces */
+    targets: string[];
+    delete: boolean;
+    output: OutputOptions;
+}
+
+function parseCommandLineArgs(): RejectArgs {
+    const { args, output } = parseOutputOptions(process.argv.slice(2));
+
+    if (args.length === 0 || args.includes('--help')) {
+        showHelpAndExit(args.length === 0 ? 1 : 0);
+    }
+
+    const unknownOption = args.find((arg) => arg.startsWith('--') && arg !== '--delete');
+    if (unknownOption) {
+        console.error(`Unknown argument: ${unknownOption}`);
+        process.exit(1);
+    }
+
+    const parsedArgs = {
+        targets: parseSafeTxHashes(args.filter((arg) => arg !== '--delete').join(' ')),
+        delete: args.includes('--delete'),
+        output,
+    };
+
+    for (const target of parsedArgs.targets) {
+        if (parsedArgs.delete || !/^\d+$/.test(target)) {
+            Validator.validateHexString(target, 'safeTxHash', 64);
+        }
+    }
+
+    return parsedArgs;
+}
+
+function showHelpAndExit(exitCode: number): void {
+    console.log(`
+Usage: npm run reject -- <safeTxHash|nonce> [<safeTxHash|nonce> ...] [options]
+       npm run reject -- --delete <safeTxHash> [<safeTxHash> ...] [options]
+
+Cancels pending Safe transactions.
+
+By default, proposes a rejection at the nonce of each transaction (or at each given nonce):
+a zero-value call from the Safe to itself, signed by the proposer. Once the rejection
+gathers enough confirmations and is executed, the nonce is consumed and the transactions
+queued at it can no longer run.
+
+With --delete, removes the proposals from the Safe Transaction Service instead. This only
+works for proposals made by the proposer that no other owner has signed yet.
+
+Options:
+  --json                  Print the rejections as a JSON document on stdout, and everything
+                          else on stderr
+  --output <file>         Also write the JSON document to a file
+
+Examples:
+  npm run reject -- 0xabc...
+  npm run reject -- 42
+  npm run reject -- --delete 0xabc...
+  npm run reject -- 42 --json
+        `);
+    process.exit(exitCode);
+}
+
+function displayRejection(result: RejectionResult): void {
+    console.log(`Nonce ${result.nonce}:`);
+    console.log(`   Rejection Hash: ${result.safeTxHash}`);
+    console.log(`   Status: ${result.status === 'proposed' ? 'Proposed' : 'Already proposed'}`);
+    console.log(
+        `   Rejects: ${result.rejectedTransactions.join(', ') || 'no pending transaction'}`,
+    );
+    console.log('');
+}
+
+async function main(): Promise<void> {
+    try {
+        const parsedArgs = parseCommandLineArgs();
+        const { output } = parsedArgs;
+
+        if (output.json) {
+            reserveStdoutForJson();
+        }
+
+        await validateEnvironment();
+
+        const safeManager = await SafeManager.create({ simulate: false });
+        const rejections: RejectionResult[] = [];
+        const deleted: string[] = [];
+
+        for (const target of parsedArgs.targets) {
+            if (parsedArgs.delete) {
+                await safeManager.deleteTransaction(target);
+                deleted.push(target);
+                console.log(`Deleted ${target}`);
+            } else {
+                const rejection = /^\d+$/.test(target)
+                    ? await safeManager.rejectNonce(Number(target))
+                    : await safeManager.rejectTransaction(target);
+                rejections.push(rejection);
+                if (!output.json) {
+                    displayRejection(rejection);
+                }
+            }
+        }
+
+        if (output.json || output.outputFile) {
+            const document = createOutput('rejections', {
+                chainId: safeManager.getChainId(),
+                safeAddress: safeManager.getSafeAddress(),
+                rejections,
+                deleted,
+            });
+            writeOutput(document, output);
+        }
+    } catch (error) {
+        console.error('Error rejecting transactions:', error);
+        process.exit(1);
+    }
+}
+
+if (require.main === module) {
+    void main();
+}
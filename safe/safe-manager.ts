@@ -1,198 +1,1398 @@
 import SafeApiKit, {
     AllTransactionsListResponse,
+    AllTransactionsOptions,
+    GetIncomingTransactionsOptions,
+    GetModuleTransactionsOptions,
+    GetMultisigTransactionsOptions,
+    ListOptions,
+    PendingTransactionsOptions,
+    SafeDelegateResponse,
     SafeInfoResponse,
     SafeModuleTransactionListResponse,
     SafeMultisigTransactionListResponse,
     TransferListResponse,
 } from '@safe-global/api-kit';
-import Safe from '@safe-global/protocol-kit';
-import { MetaTransactionData, OperationType } from '@safe-global/types-kit';
-import { getProposerConfig, getSafeConfig, OwnerConfig } from './config';
-import { AppError, ConfigurationError, ErrorCode, SafeTransactionError } from './errors';
+import Safe, {
+    ContractNetworkConfig,
+    ContractNetworksConfig,
+    EthSafeSignature,
+    generateTypedData,
+    getCreateCallContract,
+} from '@safe-global/protocol-kit';
+import {
+    EIP712TypedDataTx,
+    MetaTransactionData,
+    OperationType,
+    SafeTransaction,
+} from '@safe-global/types-kit';
+import { ethers } from 'ethers';
+import { Account, Chain, Transport, WalletClient } from 'viem';
+import { formatChain, getChain, SAFE_CONTRACT_FIELDS, SafeContractField } from './chains';
+import { getProposerConfig, getSafeConfig, getTxServiceHeaders, OwnerConfig } from './config';
+import {
+    AppError,
+    ConfigurationError,
+    ErrorCode,
+    SafeTransactionError,
+    ValidationError,
+} from './errors';
 import { logger } from './logger';
+import { SafeSigner, toWalletClient } from './signers';
+import {
+    BUNDLE_VERSION,
+    recoverBundleSigner,
+    SafeTransactionBundle,
+    verifyBundleHash,
+} from './transaction-bundle';
+import { SimulationResult, TransactionSimulator } from './transaction-simulator';
+import { sleep } from './utils';
 import { Validator } from './validation';
 
+export interface SafeManagerOptions {
+    /** Simulate each Safe transaction on an Anvil fork before proposing it (default: true) */
+    simulate?: boolean;
+    /** Propose transactions even when their simulation reverts (default: false) */
+    allowRevert?: boolean;
+    /** Chain whose Safe and RPC should be used (default: the chain of RPC_URL) */
+    chainId?: string;
+    /** How the nonce of new proposals is chosen (default: the on-chain nonce) */
+    nonceStrategy?: NonceStrategy;
+    /** Safe Transaction Service URL replacing the configured one, e.g. a `MockTransactionService`; SAFE_API_KEY is then not required */
+    txServiceUrl?: string;
+}
+
+/**
+ * - `onchain`: start at the Safe's on-chain nonce, as the Safe UI does
+ * - `append`: start after the highest nonce already queued in the service
+ * - `replace`: propose a single transaction at `nonce`, replacing what is queued there
+ * - `start`: start at `nonce`
+ */
+export type NonceMode = 'onchain' | 'append' | 'replace' | 'start';
+
+export interface NonceStrategy {
+    mode: NonceMode;
+    nonce?: number;
+}
+
+export const NONCE_MODES: NonceMode[] = ['onchain', 'append', 'replace', 'start'];
+
+/**
+ * Build a nonce strategy from CLI or action inputs
+ */
+export function parseNonceStrategy(mode: string = 'onchain', nonce?: string): NonceStrategy {
+    if (!NONCE_MODES.includes(mode as NonceMode)) {
+        throw new ValidationError(
+            `Invalid nonce mode: ${mode}. Expected one of ${NONCE_MODES.join(', ')}`,
+            ErrorCode.INVALID_CONFIGURATION,
+            { nonceMode: mode },
+        );
+    }
+
+    const needsNonce = mode === 'replace' || mode === 'start';
+    if (needsNonce && (!nonce || !/^\d+$/.test(nonce))) {
+        throw new ValidationError(
+            `Nonce mode ${mode} requires a non-negative integer nonce`,
+            ErrorCode.INVALID_CONFIGURATION,
+            { nonceMode: mode, nonce },
+        );
+    }
+
+    return { mode: mode as NonceMode, nonce: needsNonce ? Number(nonce) : undefined };
+}
+
+// Typed data the Safe Transaction Service expects when deleting a proposal
+const DELETE_REQUEST_TYPES = {
+    DeleteRequest: [
+        { name: 'safeTxHash', type: 'bytes32' },
+        { name: 'totp', type: 'uint256' },
+    ],
+};
+
+// Emitted by the Safe when the inner call fails while safeTxGas/gasPrice are set
+const EXECUTION_FAILURE_TOPIC = ethers.id('ExecutionFailure(bytes32,uint256)');
+
+// How long an execution may wait to be mined before it is considered dropped
+const EXECUTION_RECEIPT_TIMEOUT_MS = 10 * 60_000;
+
+// Answered by every Safe singleton version, through the proxy
+const SAFE_ABI = [
+    'function VERSION() view returns (string)',
+    'function getOwners() view returns (address[])',
+    'function getThreshold() view returns (uint256)',
+];
+
+/** Multisig transaction as returned by the Safe Transaction Service */
+export type SafeServiceTransaction = Awaited<ReturnType<SafeApiKit['getTransaction']>>;
+
+/** An item of a paginated Safe Transaction Service listing */
+export type ListItem<L extends { results: unknown[] }> = L['results'][number];
+
+export interface ExecutionResult {
+    safeTxHash: string;
+    nonce: number;
+    transactionHash: string;
+    /** Account that sent the execution transaction */
+    executor: string;
+    blockNumber?: number;
+    gasUsed?: string;
+    status: 'success' | 'reverted';
+}
+
+export interface WaitForExecutionOptions {
+    /** Give up after this long (default: 30 minutes) */
+    timeoutMs?: number;
+    /** Delay before the second poll, doubled after each poll (default: 5 seconds) */
+    pollIntervalMs?: number;
+    /** Upper bound of the delay between polls (default: 1 minute) */
+    maxPollIntervalMs?: number;
+}
+
+export interface ConfirmationResult {
+    safeTxHash: string;
+    status: 'confirmed' | 'already-signed';
+    confirmations: number;
+    confirmationsRequired: number;
+}
+
+export interface RejectionResult {
+    /** Hash of the rejection transaction */
+    safeTxHash: string;
+    nonce: number;
+    status: 'proposed' | 'existing';
+    /** Pending transactions the rejection replaces once executed */
+    rejectedTransactions: string[];
+}
+
+export interface BundleSubmissionResult {
+    safeTxHash: string;
+    status: 'proposed' | 'confirmed';
+    submittedSigners: string[];
+    confirmations: number;
+    confirmationsRequired: number;
+}
+
 export class SafeManager {
     private apiKit: SafeApiKit;
     private safeConfig: Awaited<ReturnType<typeof getSafeConfig>>; // Fix this line
+    private options: SafeManagerOptions;
+    private simulator: TransactionSimulator | null;
+    private simulationResults = new Map<string, SimulationResult>();
+    private proposedNonces = new Map<string, number>();
 
-    private constructor(safeConfig: Awaited<ReturnType<typeof getSafeConfig>>) {
+    private constructor(
+        safeConfig: Awaited<ReturnType<typeof getSafeConfig>>,
+        options: SafeManagerOptions,
+    ) {
         this.safeConfig = safeConfig;
+        this.options = options;
         this.apiKit = new SafeApiKit({
             chainId: this.safeConfig.chainId,
+            txServiceUrl: this.getTransactionServiceUrl(),
+            apiKey: this.safeConfig.apiKey,
         });
+        this.simulator =
+            options.simulate === false ? null : new TransactionSimulator(this.safeConfig.rpcUrl);
+
+        logger.info('SafeManager initialized successfully', {
+            chainId: this.safeConfig.chainId,
+            safeAddress: this.safeConfig.safeAddress,
+        });
+    }
+
+    static async create(options: SafeManagerOptions = {}): Promise<SafeManager> {
+        try {
+            const safeConfig = await getSafeConfig(options.chainId, options.txServiceUrl);
+            return new SafeManager(safeConfig, options);
+        } catch (error) {
+            logger.error('Failed to initialize SafeManager', { error });
+            throw new ConfigurationError('SafeManager initialization failed', {
+                originalError: error,
+            });
+        }
+    }
+
+    /**
+     * Create a Protocol Kit instance for a specific owner
+     */
+    private async createProtocolKit(ownerConfig: OwnerConfig): Promise<Safe> {
+        try {
+            logger.debug('Creating Protocol Kit instance', {
+                safeAddress: this.safeConfig.safeAddress,
+                ownerAddress: ownerConfig.address,
+            });
+
+            // Validate owner configuration
+            Validator.validateAddress(ownerConfig.address, 'Owner address');
+
+            const protocolKit = await Safe.init({
+                ...ownerConfig.signer.toProtocolKitConfig(this.safeConfig.rpcUrl),
+                safeAddress: this.safeConfig.safeAddress,
+                contractNetworks: getContractNetworks(this.safeConfig.chainId),
+            });
+
+            logger.debug('Protocol Kit instance created successfully');
+            return protocolKit;
+        } catch (error) {
+            logger.error('Failed to create Protocol Kit instance', {
+                error,
+                safeAddress: this.safeConfig.safeAddress,
+                ownerAddress: ownerConfig.address,
+            });
+
+            if (error instanceof AppError) {
+                throw error;
+            }
+
+            throw new SafeTransactionError(
+                'Failed to initialize Safe Protocol Kit',
+                ErrorCode.SAFE_TRANSACTION_FAILED,
+                { originalError: error, ownerAddress: ownerConfig.address },
+            );
+        }
+    }
+
+    /*//////////////////////////////////////////////////////////////
+                  CREATE TRANSACTION - PROPOSE AND Bridge
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * Propose a transaction to the Safe
+     */
+    async proposeTransaction(transactionData: MetaTransactionData): Promise<string> {
+        const ownerConfig = await getProposerConfig();
+        const protocolKit = await this.createProtocolKit(ownerConfig);
+
+        // Create transaction
+        const safeTransaction = await protocolKit.createTransaction({
+            transactions: [transactionData],
+        });
+
+        const safeTxHash = await protocolKit.getTransactionHash(safeTransaction);
+        await this.simulateBeforeProposal(protocolKit, safeTransaction, safeTxHash);
+        const signature = await protocolKit.signHash(safeTxHash);
+
+        // Propose transaction to the service
+        await this.apiKit.proposeTransaction({
+            safeAddress: this.safeConfig.safeAddress,
+            safeTransactionData: safeTransaction.data,
+            safeTxHash,
+            senderAddress: ownerConfig.address,
+            senderSignature: signature.data,
+        });
+        this.proposedNonces.set(safeTxHash, Number(safeTransaction.data.nonce));
+
+        return safeTxHash;
+    }
+
+    /**
+     * Run a Safe transaction on a fork and abort the proposal if it reverts
+     */
+    private async simulateBeforeProposal(
+        protocolKit: Safe,
+        safeTransaction: SafeTransaction,
+        safeTxHash: string,
+    ): Promise<void> {
+        if (!this.simulator) {
+            return;
+        }
+
+        const [executor] = await protocolKit.getOwners();
+        const result = await this.simulator.simulate(
+            safeTransaction,
+            this.safeConfig.safeAddress,
+            executor,
+        );
+        this.simulationResults.set(safeTxHash, result);
+
+        logger.info('Safe transaction simulated', {
+            safeTxHash,
+            status: result.status,
+            gasUsed: result.gasUsed,
+            eventCount: result.events.length,
+            revertReason: result.revertReason,
+        });
+
+        if (result.status === 'reverted' && !this.options.allowRevert) {
+            throw new SafeTransactionError(
+                `Safe transaction reverted during simulation: ${result.revertReason}`,
+                ErrorCode.SIMULATION_FAILED,
+                { safeTxHash, simulation: result },
+            );
+        }
+    }
+
+    /**
+     * Get the simulation result recorded for a proposed transaction
+     */
+    getSimulationResult(safeTxHash: string): SimulationResult | undefined {
+        return this.simulationResults.get(safeTxHash);
+    }
+
+    /**
+     * Release resources held by the manager (simulation fork)
+     */
+    dispose(): void {
+        this.simulator?.stop();
+    }
+
+    /**
+     * Helper method to create a contract call transaction
+     */
+    createContractCallTransaction(
+        to: string,
+        data: string,
+        value: string = '0',
+    ): MetaTransactionData {
+        return {
+            to,
+            value,
+            data,
+            operation: OperationType.Call,
+        };
+    }
+
+    /**
+     * Helper method to create a delegate call transaction
+     */
+    createDelegateCallTransaction(to: string, data: string): MetaTransactionData {
+        return {
+            to,
+            value: '0',
+            data,
+            operation: OperationType.DelegateCall,
+        };
+    }
+
+    /**
+     * Get a specific transaction by hash
+     */
+    async getTransaction(safeTxHash: string): Promise<SafeServiceTransaction> {
+        return await this.apiKit.getTransaction(safeTxHash);
+    }
+
+    /*//////////////////////////////////////////////////////////////
+                          CONFIRM TRANSACTION
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * Add the configured signer's confirmation to a pending transaction
+     */
+    async confirmTransaction(safeTxHash: string): Promise<ConfirmationResult> {
+        const ownerConfig = await getProposerConfig();
+        const protocolKit = await this.createProtocolKit(ownerConfig);
+        const transaction = await this.getTransaction(safeTxHash);
+
+        await this.assertConfirmable(protocolKit, transaction, ownerConfig.address);
+
+        const confirmations = transaction.confirmations || [];
+        const alreadySigned = confirmations.some(
+            (confirmation) =>
+                confirmation.owner.toLowerCase() === ownerConfig.address.toLowerCase(),
+        );
+
+        if (alreadySigned) {
+            logger.warn('Transaction already confirmed by signer', {
+                safeTxHash,
+                signer: ownerConfig.address,
+            });
+            return {
+                safeTxHash,
+                status: 'already-signed',
+                confirmations: confirmations.length,
+                confirmationsRequired: transaction.confirmationsRequired,
+            };
+        }
+
+        const signature = await protocolKit.signHash(safeTxHash);
+        await this.apiKit.confirmTransaction(safeTxHash, signature.data);
+
+        logger.transaction(safeTxHash, 'confirmed', { signer: ownerConfig.address });
+
+        return {
+            safeTxHash,
+            status: 'confirmed',
+            confirmations: confirmations.length + 1,
+            confirmationsRequired: transaction.confirmationsRequired,
+        };
+    }
+
+    /*//////////////////////////////////////////////////////////////
+                           REJECT TRANSACTION
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * Propose the rejection of a pending transaction, at the transaction's nonce
+     */
+    async rejectTransaction(safeTxHash: string): Promise<RejectionResult> {
+        const transaction = await this.getTransaction(safeTxHash);
+
+        if (transaction.isExecuted) {
+            throw new SafeTransactionError(
+                `Transaction ${safeTxHash} has already been executed`,
+                ErrorCode.TRANSACTION_ALREADY_EXECUTED,
+                { safeTxHash, transactionHash: transaction.transactionHash },
+            );
+        }
+
+        return await this.rejectNonce(Number(transaction.nonce));
+    }
+
+    /**
+     * Propose a rejection at `nonce`: a zero-value call from the Safe to itself that, once
+     * executed, consumes the nonce so no other transaction queued there can run
+     */
+    async rejectNonce(nonce: number): Promise<RejectionResult> {
+        const ownerConfig = await getProposerConfig();
+        const protocolKit = await this.createProtocolKit(ownerConfig);
+
+        const onchainNonce = await protocolKit.getNonce();
+        if (nonce < onchainNonce) {
+            throw new SafeTransactionError(
+                `Nonce ${nonce} has already been used, the Safe is at nonce ${onchainNonce}`,
+                ErrorCode.NONCE_CONFLICT,
+                { nonce, onchainNonce },
+            );
+        }
+
+        const safeTransaction = await protocolKit.createRejectionTransaction(nonce);
+        const safeTxHash = await protocolKit.getTransactionHash(safeTransaction);
+
+        const rejectedTransactions: string[] = [];
+        for await (const tx of this.iteratePendingTransactions({ currentNonce: onchainNonce })) {
+            if (Number(tx.nonce) === nonce && tx.safeTxHash !== safeTxHash) {
+                rejectedTransactions.push(tx.safeTxHash);
+            }
+        }
+
+        if (await this.findTransaction(safeTxHash)) {
+            logger.warn('Rejection already proposed', { safeTxHash, nonce });
+            return { safeTxHash, nonce, status: 'existing', rejectedTransactions };
+        }
+
+        const signature = await protocolKit.signHash(safeTxHash);
+        try {
+            await this.apiKit.proposeTransaction({
+                safeAddress: this.safeConfig.safeAddress,
+                safeTransactionData: safeTransaction.data,
+                safeTxHash,
+                senderAddress: ownerConfig.address,
+                senderSignature: signature.data,
+            });
+        } catch (error) {
+            this.handleProposeTransactionError(error, nonce, safeTransaction.data);
+            throw error;
+        }
+        this.proposedNonces.set(safeTxHash, nonce);
+
+        logger.transaction(safeTxHash, 'rejection proposed', { nonce, rejectedTransactions });
+
+        return { safeTxHash, nonce, status: 'proposed', rejectedTransactions };
+    }
+
+    /**
+     * Delete a proposal from the Safe Transaction Service
+     *
+     * The service only accepts deletions signed by the transaction's proposer (or the delegate
+     * that proposed it), so this is limited to proposals made by the configured proposer that
+     * no other owner has signed.
+     */
+    async deleteTransaction(safeTxHash: string): Promise<void> {
+        const ownerConfig = await getProposerConfig();
+        const transaction = await this.getTransaction(safeTxHash);
+        const proposer = ownerConfig.address.toLowerCase();
+
+        if (transaction.isExecuted) {
+            throw new SafeTransactionError(
+                `Transaction ${safeTxHash} has already been executed`,
+                ErrorCode.TRANSACTION_ALREADY_EXECUTED,
+                { safeTxHash, transactionHash: transaction.transactionHash },
+            );
+        }
+
+        const proposers = [transaction.proposer, transaction.proposedByDelegate];
+        if (!proposers.some((address) => address?.toLowerCase() === proposer)) {
+            throw new SafeTransactionError(
+                `Transaction ${safeTxHash} was proposed by ${transaction.proposer}, not ${ownerConfig.address}`,
+                ErrorCode.TRANSACTION_NOT_DELETABLE,
+                { safeTxHash, proposer: transaction.proposer },
+            );
+        }
+
+        const otherSigners = (transaction.confirmations || [])
+            .map((confirmation) => confirmation.owner)
+            .filter((owner) => owner.toLowerCase() !== proposer);
+        if (otherSigners.length > 0) {
+            throw new SafeTransactionError(
+                `Transaction ${safeTxHash} has already been signed by ${otherSigners.join(', ')}`,
+                ErrorCode.TRANSACTION_NOT_DELETABLE,
+                { safeTxHash, signers: otherSigners },
+            );
+        }
+
+        // The signature is only valid for the current hour, a time-based one-time password
+        const totp = Math.floor(Date.now() / 1000 / 3600);
+        const signature = await ownerConfig.signer.toEthersSigner().signTypedData(
+            {
+                name: 'Safe Transaction Service',
+                version: '1.0',
+                chainId: this.safeConfig.chainId,
+                verifyingContract: this.safeConfig.safeAddress,
+            },
+            DELETE_REQUEST_TYPES,
+            { safeTxHash, totp },
+        );
+
+        // API Kit 4.2 has no method to delete a proposal
+        const response = await fetch(
+            `${this.getTransactionServiceUrl()}/v1/multisig-transactions/${safeTxHash}/`,
+            {
+                method: 'DELETE',
+                headers: getTxServiceHeaders(this.safeConfig.apiKey),
+                body: JSON.stringify({ safeTxHash, signature }),
+            },
+        );
+
+        if (!response.ok) {
+            const detail = await response.text();
+            throw new SafeTransactionError(
+                `Failed to delete transaction ${safeTxHash}: ${response.status} ${detail || response.statusText}`,
+                ErrorCode.SAFE_TRANSACTION_FAILED,
+                { safeTxHash, status: response.status, detail },
+            );
+        }
+
+        logger.transaction(safeTxHash, 'deleted', { proposer: ownerConfig.address });
+    }
+
+    /**
+     * Get the base URL of the Safe Transaction Service used by the API Kit
+     */
+    private getTransactionServiceUrl(): string {
+        return this.options.txServiceUrl ?? this.safeConfig.txServiceUrl;
+    }
+
+    /*//////////////////////////////////////////////////////////////
+                            OFFLINE SIGNING
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * Export a pending transaction as a bundle that owners can sign offline
+     */
+    async exportTransactionBundle(safeTxHash: string): Promise<SafeTransactionBundle> {
+        const ownerConfig = await getProposerConfig();
+        const protocolKit = await this.createProtocolKit(ownerConfig);
+        const transaction = await this.getTransaction(safeTxHash);
+
+        if (transaction.isExecuted) {
+            throw new SafeTransactionError(
+                `Transaction ${safeTxHash} has already been executed`,
+                ErrorCode.TRANSACTION_ALREADY_EXECUTED,
+                { safeTxHash, transactionHash: transaction.transactionHash },
+            );
+        }
+
+        const safeTransaction = await this.toSafeTransaction(protocolKit, transaction);
+        const bundle = await this.createBundle(protocolKit, safeTransaction);
+        if (bundle.safeTxHash.toLowerCase() !== safeTxHash.toLowerCase()) {
+            throw new SafeTransactionError(
+                `Safe transaction hash mismatch for ${safeTxHash}`,
+                ErrorCode.SAFE_TX_HASH_MISMATCH,
+                { safeTxHash, computedHash: bundle.safeTxHash },
+            );
+        }
+
+        return bundle;
+    }
+
+    /**
+     * Build a not yet proposed transaction (batched when several) as an offline bundle
+     */
+    async buildTransactionBundle(
+        transactionsData: MetaTransactionData[],
+    ): Promise<SafeTransactionBundle> {
+        if (transactionsData.length === 0) {
+            throw new SafeTransactionError(
+                'Cannot export an empty transaction bundle',
+                ErrorCode.INVALID_TRANSACTION_DATA,
+            );
+        }
+
+        const ownerConfig = await getProposerConfig();
+        const protocolKit = await this.createProtocolKit(ownerConfig);
+        const nonce = await this.resolveStartNonce(1);
+        const safeTransaction =
+            transactionsData.length === 1
+                ? await protocolKit.createTransaction({
+                      transactions: transactionsData,
+                      options: { nonce },
+                  })
+                : await this.createBatchSafeTransaction(protocolKit, transactionsData, nonce);
+
+        const bundle = await this.createBundle(protocolKit, safeTransaction);
+        await this.simulateBeforeProposal(protocolKit, safeTransaction, bundle.safeTxHash);
+        return bundle;
+    }
+
+    /**
+     * Submit the signatures collected in a bundle to the Safe Transaction Service
+     *
+     * A transaction unknown to the service is proposed with the first signature, so neither
+     * the signers nor this step need the proposer key.
+     */
+    async submitBundleSignatures(bundle: SafeTransactionBundle): Promise<BundleSubmissionResult> {
+        const { safeTxHash } = bundle;
+        this.assertBundleMatchesSafe(bundle);
+        await this.assertBundleSigners(bundle);
+
+        let transaction = await this.findTransaction(safeTxHash);
+        const submittedSigners: string[] = [];
+        let signatures = bundle.signatures;
+        const proposed = !transaction;
+
+        if (!transaction) {
+            const [first, ...others] = signatures;
+            await this.apiKit.proposeTransaction({
+                safeAddress: this.safeConfig.safeAddress,
+                safeTransactionData: bundle.message,
+                safeTxHash,
+                senderAddress: first.signer,
+                senderSignature: first.data,
+            });
+            logger.transaction(safeTxHash, 'proposed', { signer: first.signer });
+
+            submittedSigners.push(first.signer);
+            signatures = others;
+            transaction = await this.getTransaction(safeTxHash);
+        } else if (transaction.isExecuted) {
+            throw new SafeTransactionError(
+                `Transaction ${safeTxHash} has already been executed`,
+                ErrorCode.TRANSACTION_ALREADY_EXECUTED,
+                { safeTxHash, transactionHash: transaction.transactionHash },
+            );
+        }
+
+        const signers = new Set(
+            (transaction.confirmations || []).map((confirmation) =>
+                confirmation.owner.toLowerCase(),
+            ),
+        );
+        for (const signature of signatures) {
+            if (signers.has(signature.signer.toLowerCase())) {
+                continue;
+            }
+            await this.apiKit.confirmTransaction(safeTxHash, signature.data);
+            logger.transaction(safeTxHash, 'confirmed', { signer: signature.signer });
+            submittedSigners.push(signature.signer);
+            signers.add(signature.signer.toLowerCase());
+        }
+
+        return {
+            safeTxHash,
+            status: proposed ? 'proposed' : 'confirmed',
+            submittedSigners,
+            confirmations: signers.size,
+            confirmationsRequired: transaction.confirmationsRequired,
+        };
+    }
+
+    /**
+     * Build the EIP-712 bundle of a Safe transaction
+     */
+    private async createBundle(
+        protocolKit: Safe,
+        safeTransaction: SafeTransaction,
+    ): Promise<SafeTransactionBundle> {
+        const safeVersion = await protocolKit.getContractVersion();
+        const typedData = generateTypedData({
+            safeAddress: this.safeConfig.safeAddress,
+            safeVersion,
+            chainId: this.safeConfig.chainId,
+            data: safeTransaction.data,
+        }) as EIP712TypedDataTx;
+
+        const bundle: SafeTransactionBundle = {
+            version: BUNDLE_VERSION,
+            safeAddress: this.safeConfig.safeAddress,
+            chainId: this.safeConfig.chainId.toString(),
+            safeVersion,
+            safeTxHash: await protocolKit.getTransactionHash(safeTransaction),
+            nonce: Number(safeTransaction.data.nonce),
+            domain: typedData.domain,
+            types: typedData.types,
+            primaryType: 'SafeTx',
+            message: typedData.message,
+            signatures: [],
+        };
+
+        // The bundle is signed offline from its typed data, which must yield the same hash
+        verifyBundleHash(bundle);
+        return bundle;
+    }
+
+    /**
+     * Check that a bundle targets the configured Safe and chain and is internally consistent
+     */
+    private assertBundleMatchesSafe(bundle: SafeTransactionBundle): void {
+        verifyBundleHash(bundle);
+
+        if (
+            bundle.safeAddress.toLowerCase() !== this.safeConfig.safeAddress.toLowerCase() ||
+            bundle.chainId !== this.safeConfig.chainId.toString()
+        ) {
+            throw new SafeTransactionError(
+                `Bundle ${bundle.safeTxHash} targets Safe ${bundle.safeAddress} on chain ${bundle.chainId}`,
+                ErrorCode.INVALID_TRANSACTION_BUNDLE,
+                {
+                    safeTxHash: bundle.safeTxHash,
+                    expectedSafeAddress: this.safeConfig.safeAddress,
+                    expectedChainId: this.safeConfig.chainId.toString(),
+                },
+            );
+        }
+
+        if (bundle.signatures.length === 0) {
+            throw new SafeTransactionError(
+                `Bundle ${bundle.safeTxHash} has no signatures`,
+                ErrorCode.INSUFFICIENT_CONFIRMATIONS,
+                { safeTxHash: bundle.safeTxHash },
+            );
+        }
+    }
+
+    /**
+     * Check that every bundle signature recovers to the owner it claims
+     */
+    private async assertBundleSigners(bundle: SafeTransactionBundle): Promise<void> {
+        const owners = (await this.getSafeOwners()).map((owner) => owner.toLowerCase());
+
+        for (const signature of bundle.signatures) {
+            const recovered = recoverBundleSigner(bundle, signature.data);
+            if (recovered.toLowerCase() !== signature.signer.toLowerCase()) {
+                throw new SafeTransactionError(
+                    `Signature for ${signature.signer} was produced by ${recovered}`,
+                    ErrorCode.INVALID_TRANSACTION_BUNDLE,
+                    { safeTxHash: bundle.safeTxHash, signer: signature.signer, recovered },
+                );
+            }
+
+            if (!owners.includes(recovered.toLowerCase())) {
+                throw new SafeTransactionError(
+                    `${recovered} is not an owner of the Safe`,
+                    ErrorCode.SIGNER_NOT_OWNER,
+                    {
+                        safeTxHash: bundle.safeTxHash,
+                        signer: recovered,
+                        safeAddress: this.safeConfig.safeAddress,
+                    },
+                );
+            }
+        }
+    }
+
+    /**
+     * Get a transaction from the service, or undefined if it was never proposed
+     */
+    private async findTransaction(safeTxHash: string): Promise<SafeServiceTransaction | undefined> {
+        try {
+            return await this.getTransaction(safeTxHash);
+        } catch (error) {
+            logger.debug('Transaction not found in the Safe Transaction Service', {
+                safeTxHash,
+                error: (error as Error).message,
+            });
+            return undefined;
+        }
+    }
+
+    /*//////////////////////////////////////////////////////////////
+                          EXECUTE TRANSACTION
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * Get the pending transactions that can be executed now, in nonce order
+     *
+     * One fully confirmed transaction is picked per nonce, starting at the Safe's current
+     * nonce, until a nonce without a ready transaction is reached.
+     */
+    async getReadyTransactions(): Promise<SafeServiceTransaction[]> {
+        const currentNonce = await this.getCurrentNonce();
+        const byNonce = new Map<number, SafeServiceTransaction[]>();
+        for await (const tx of this.iteratePendingTransactions({ currentNonce })) {
+            const nonce = Number(tx.nonce);
+            byNonce.set(nonce, [...(byNonce.get(nonce) || []), tx]);
+        }
+
+        const ready: SafeServiceTransaction[] = [];
+        let nonce = currentNonce;
+        for (;;) {
+            const candidate = (byNonce.get(nonce) || []).find(
+                (tx) => (tx.confirmations?.length || 0) >= tx.confirmationsRequired,
+            );
+            if (!candidate) {
+                break;
+            }
+            ready.push(candidate);
+            nonce++;
+        }
+
+        return ready;
+    }
+
+    /**
+     * Execute a fully confirmed transaction on-chain and wait for its receipt
+     */
+    async executeTransaction(safeTxHash: string): Promise<ExecutionResult> {
+        const ownerConfig = await getProposerConfig();
+        const protocolKit = await this.createProtocolKit(ownerConfig);
+        const transaction = await this.getTransaction(safeTxHash);
+
+        if (transaction.isExecuted) {
+            throw new SafeTransactionError(
+                `Transaction ${safeTxHash} has already been executed`,
+                ErrorCode.TRANSACTION_ALREADY_EXECUTED,
+                { safeTxHash, transactionHash: transaction.transactionHash },
+            );
+        }
+
+        const confirmations = transaction.confirmations || [];
+        if (confirmations.length < transaction.confirmationsRequired) {
+            throw new SafeTransactionError(
+                `Transaction ${safeTxHash} has ${confirmations.length}/${transaction.confirmationsRequired} confirmations`,
+                ErrorCode.INSUFFICIENT_CONFIRMATIONS,
+                { safeTxHash, confirmations: confirmations.length },
+            );
+        }
+
+        const safeTransaction = await this.toSafeTransaction(protocolKit, transaction);
+        confirmations.forEach((confirmation) => {
+            safeTransaction.addSignature(
+                new EthSafeSignature(confirmation.owner, confirmation.signature),
+            );
+        });
+
+        logger.info('Executing Safe transaction', { safeTxHash, nonce: transaction.nonce });
+        const { hash } = await protocolKit.executeTransaction(safeTransaction);
+
+        const receipt = await this.waitForReceipt(safeTxHash, hash);
+        const failed =
+            !receipt ||
+            receipt.status !== 1 ||
+            receipt.logs.some((log) => log.topics[0] === EXECUTION_FAILURE_TOPIC);
+
+        const result: ExecutionResult = {
+            safeTxHash,
+            nonce: Number(transaction.nonce),
+            transactionHash: hash,
+            executor: ownerConfig.address,
+            blockNumber: receipt?.blockNumber,
+            gasUsed: receipt?.gasUsed.toString(),
+            status: failed ? 'reverted' : 'success',
+        };
+
+        logger.transaction(hash, 'executed', { ...result });
+        return result;
+    }
+
+    /**
+     * Wait for the receipt of an execution, failing when it is not mined in time (dropped or
+     * underpriced) rather than waiting forever
+     */
+    private async waitForReceipt(
+        safeTxHash: string,
+        transactionHash: string,
+    ): Promise<ethers.TransactionReceipt | null> {
+        const provider = new ethers.JsonRpcProvider(this.safeConfig.rpcUrl);
+        try {
+            return await provider.waitForTransaction(
+                transactionHash,
+                1,
+                EXECUTION_RECEIPT_TIMEOUT_MS,
+            );
+        } catch (error) {
+            if (ethers.isError(error, 'TIMEOUT')) {
+                throw new SafeTransactionError(
+                    `Execution ${transactionHash} of ${safeTxHash} was not mined within ${EXECUTION_RECEIPT_TIMEOUT_MS / 60_000} minutes`,
+                    ErrorCode.OPERATION_TIMEOUT,
+                    { safeTxHash, transactionHash },
+                );
+            }
+            throw error;
+        } finally {
+            provider.destroy();
+        }
+    }
+
+    /**
+     * Wait until transactions are executed by anyone, polling the Safe Transaction Service with
+     * an exponential backoff
+     *
+     * Fails on timeout, or as soon as another transaction consumed the nonce of a pending one.
+     * Executions that reverted on-chain are returned with the `reverted` status.
+     */
+    async waitForExecution(
+        safeTxHashes: string[],
+        options: WaitForExecutionOptions = {},
+    ): Promise<ExecutionResult[]> {
+        const {
+            timeoutMs = 30 * 60_000,
+            pollIntervalMs = 5_000,
+            maxPollIntervalMs = 60_000,
+        } = options;
+        const deadline = Date.now() + timeoutMs;
+        const executions = new Map<string, ExecutionResult>();
+        let interval = pollIntervalMs;
+
+        for (;;) {
+            await this.pollExecutions(safeTxHashes, executions);
+
+            const pending = safeTxHashes.filter((safeTxHash) => !executions.has(safeTxHash));
+            if (pending.length === 0) {
+                return safeTxHashes.map(
+                    (safeTxHash) => executions.get(safeTxHash) as ExecutionResult,
+                );
+            }
+
+            const remaining = deadline - Date.now();
+            if (remaining <= 0) {
+                throw new SafeTransactionError(
+                    `Timed out after ${Math.round(timeoutMs / 1000)}s waiting for the execution of ${pending.join(', ')}`,
+                    ErrorCode.OPERATION_TIMEOUT,
+                    { pending, executed: [...executions.keys()] },
+                );
+            }
+
+            logger.info('Waiting for execution', {
+                pending,
+                nextPollMs: Math.min(interval, remaining),
+            });
+            await sleep(Math.min(interval, remaining));
+            interval = Math.min(interval * 2, maxPollIntervalMs);
+        }
+    }
+
+    /**
+     * Record the executions of the transactions that are not known to be executed yet
+     */
+    private async pollExecutions(
+        safeTxHashes: string[],
+        executions: Map<string, ExecutionResult>,
+    ): Promise<void> {
+        const safeNonce = Number((await this.getSafeInfo()).nonce);
+
+        for (const safeTxHash of safeTxHashes.filter((hash) => !executions.has(hash))) {
+            const transaction = await this.getTransaction(safeTxHash);
+
+            if (transaction.isExecuted) {
+                executions.set(safeTxHash, {
+                    safeTxHash,
+                    nonce: Number(transaction.nonce),
+                    transactionHash: transaction.transactionHash ?? '',
+                    executor: transaction.executor ?? '',
+                    blockNumber: transaction.blockNumber ?? undefined,
+                    gasUsed: transaction.gasUsed?.toString(),
+                    status: transaction.isSuccessful === false ? 'reverted' : 'success',
+                });
+                logger.transaction(safeTxHash, 'executed', { ...executions.get(safeTxHash) });
+            } else if (Number(transaction.nonce) < safeNonce) {
+                throw new SafeTransactionError(
+                    `Transaction ${safeTxHash} can no longer be executed: another transaction used nonce ${transaction.nonce}`,
+                    ErrorCode.NONCE_CONFLICT,
+                    { safeTxHash, nonce: transaction.nonce, safeNonce },
+                );
+            }
+        }
+    }
 
-        logger.info('SafeManager initialized successfully', {
-            chainId: this.safeConfig.chainId,
-            safeAddress: this.safeConfig.safeAddress,
+    /**
+     * Rebuild a Protocol Kit transaction from its Safe Transaction Service representation
+     */
+    private async toSafeTransaction(
+        protocolKit: Safe,
+        transaction: SafeServiceTransaction,
+    ): Promise<SafeTransaction> {
+        return await protocolKit.createTransaction({
+            transactions: [
+                {
+                    to: transaction.to,
+                    value: transaction.value,
+                    data: transaction.data || '0x',
+                    operation: transaction.operation,
+                },
+            ],
+            options: {
+                safeTxGas: transaction.safeTxGas.toString(),
+                baseGas: transaction.baseGas.toString(),
+                gasPrice: transaction.gasPrice,
+                gasToken: transaction.gasToken,
+                refundReceiver: transaction.refundReceiver,
+                nonce: Number(transaction.nonce),
+            },
         });
     }
 
-    static async create(): Promise<SafeManager> {
-        try {
-            const safeConfig = await getSafeConfig();
-            return new SafeManager(safeConfig);
-        } catch (error) {
-            logger.error('Failed to initialize SafeManager', { error });
-            throw new ConfigurationError('SafeManager initialization failed', {
-                originalError: error,
-            });
+    /**
+     * Check that a service transaction can be signed by the given owner
+     */
+    private async assertConfirmable(
+        protocolKit: Safe,
+        transaction: SafeServiceTransaction,
+        signerAddress: string,
+    ): Promise<void> {
+        const { safeTxHash } = transaction;
+
+        if (transaction.isExecuted) {
+            throw new SafeTransactionError(
+                `Transaction ${safeTxHash} has already been executed`,
+                ErrorCode.TRANSACTION_ALREADY_EXECUTED,
+                { safeTxHash, transactionHash: transaction.transactionHash },
+            );
+        }
+
+        if (!(await protocolKit.isOwner(signerAddress))) {
+            throw new SafeTransactionError(
+                `${signerAddress} is not an owner of the Safe`,
+                ErrorCode.SIGNER_NOT_OWNER,
+                { safeTxHash, signer: signerAddress, safeAddress: this.safeConfig.safeAddress },
+            );
+        }
+
+        // Never sign a hash the service did not derive from the transaction data it returned
+        const safeTransaction = await this.toSafeTransaction(protocolKit, transaction);
+        const computedHash = await protocolKit.getTransactionHash(safeTransaction);
+        if (computedHash.toLowerCase() !== safeTxHash.toLowerCase()) {
+            throw new SafeTransactionError(
+                `Safe transaction hash mismatch for ${safeTxHash}`,
+                ErrorCode.SAFE_TX_HASH_MISMATCH,
+                { safeTxHash, computedHash },
+            );
         }
     }
 
+    /*//////////////////////////////////////////////////////////////
+                               DELEGATES
+    //////////////////////////////////////////////////////////////*/
+
     /**
-     * Create a Protocol Kit instance for a specific owner
+     * Get the delegates registered for the Safe in the Safe Transaction Service
      */
-    private async createProtocolKit(ownerConfig: OwnerConfig): Promise<Safe> {
-        try {
-            logger.debug('Creating Protocol Kit instance', {
-                safeAddress: this.safeConfig.safeAddress,
-                ownerAddress: ownerConfig.address,
-            });
+    async getDelegates(): Promise<SafeDelegateResponse[]> {
+        const response = await this.apiKit.getSafeDelegates({
+            safeAddress: this.safeConfig.safeAddress,
+        });
+        return response.results;
+    }
 
-            // Validate owner configuration
-            Validator.validateAddress(ownerConfig.address, 'Owner address');
-            Validator.validatePrivateKey(ownerConfig.privateKey);
+    /**
+     * Register a delegate of a Safe owner, allowed to propose transactions to the Safe
+     */
+    async addDelegate(
+        delegator: SafeSigner,
+        delegateAddress: string,
+        label: string,
+    ): Promise<SafeDelegateResponse> {
+        Validator.validateAddress(delegateAddress, 'delegate');
+        await this.assertDelegator(delegator);
 
-            const protocolKit = await Safe.init({
-                provider: this.safeConfig.rpcUrl,
-                signer: ownerConfig.privateKey,
+        const delegate = ethers.getAddress(delegateAddress);
+        const response = await this.sendDelegateRequest('add', () =>
+            this.apiKit.addSafeDelegate({
                 safeAddress: this.safeConfig.safeAddress,
-            });
+                delegateAddress: delegate,
+                delegatorAddress: delegator.address,
+                signer: this.toDelegatorWalletClient(delegator),
+                label,
+            }),
+        );
 
-            logger.debug('Protocol Kit instance created successfully');
-            return protocolKit;
-        } catch (error) {
-            logger.error('Failed to create Protocol Kit instance', {
-                error,
-                safeAddress: this.safeConfig.safeAddress,
-                ownerAddress: ownerConfig.address,
-            });
+        logger.info('Delegate added', { delegate, delegator: delegator.address, label });
+        return response;
+    }
 
-            if (error instanceof AppError) {
-                throw error;
-            }
+    /**
+     * Remove a delegate registered by an owner
+     */
+    async removeDelegate(delegator: SafeSigner, delegateAddress: string): Promise<void> {
+        Validator.validateAddress(delegateAddress, 'delegate');
+
+        const delegate = ethers.getAddress(delegateAddress);
+        await this.sendDelegateRequest('remove', () =>
+            this.apiKit.removeSafeDelegate({
+                delegateAddress: delegate,
+                delegatorAddress: delegator.address,
+                signer: this.toDelegatorWalletClient(delegator),
+            }),
+        );
 
+        logger.info('Delegate removed', { delegate, delegator: delegator.address });
+    }
+
+    private async assertDelegator(delegator: SafeSigner): Promise<void> {
+        const owners = await this.getSafeOwners();
+        if (!owners.some((owner) => owner.toLowerCase() === delegator.address.toLowerCase())) {
             throw new SafeTransactionError(
-                'Failed to initialize Safe Protocol Kit',
+                `${delegator.address} is not an owner of the Safe and cannot add delegates`,
+                ErrorCode.SIGNER_NOT_OWNER,
+                { delegator: delegator.address, safeAddress: this.safeConfig.safeAddress },
+            );
+        }
+    }
+
+    private toDelegatorWalletClient(
+        delegator: SafeSigner,
+    ): WalletClient<Transport, Chain, Account> {
+        return toWalletClient(delegator, this.safeConfig.chainId, this.safeConfig.rpcUrl);
+    }
+
+    private async sendDelegateRequest<T>(
+        action: 'add' | 'remove',
+        request: () => Promise<T>,
+    ): Promise<T> {
+        try {
+            return await request();
+        } catch (error) {
+            throw new SafeTransactionError(
+                `Delegate request failed: ${(error as Error).message}`,
                 ErrorCode.SAFE_TRANSACTION_FAILED,
-                { originalError: error, ownerAddress: ownerConfig.address },
+                { action, originalError: (error as Error).message },
             );
         }
     }
 
     /*//////////////////////////////////////////////////////////////
-                  CREATE TRANSACTION - PROPOSE AND Bridge
+                            LIST-TRANSACTION
     //////////////////////////////////////////////////////////////*/
 
     /**
-     * Propose a transaction to the Safe
+     * Get a page of pending transactions
      */
-    async proposeTransaction(transactionData: MetaTransactionData): Promise<string> {
-        const ownerConfig = getProposerConfig();
-        const protocolKit = await this.createProtocolKit(ownerConfig);
+    async getPendingTransactions(
+        options?: PendingTransactionsOptions,
+    ): Promise<SafeMultisigTransactionListResponse> {
+        return await this.apiKit.getPendingTransactions(this.safeConfig.safeAddress, options);
+    }
 
-        // Create transaction
-        const safeTransaction = await protocolKit.createTransaction({
-            transactions: [transactionData],
-        });
+    /**
+     * Get a page of all transactions
+     */
+    async getAllTransactions(
+        options?: AllTransactionsOptions,
+    ): Promise<AllTransactionsListResponse> {
+        return await this.apiKit.getAllTransactions(this.safeConfig.safeAddress, options);
+    }
 
-        const safeTxHash = await protocolKit.getTransactionHash(safeTransaction);
-        const signature = await protocolKit.signHash(safeTxHash);
+    /**
+     * Get a page of incoming transactions
+     */
+    async getIncomingTransactions(
+        options?: GetIncomingTransactionsOptions,
+    ): Promise<TransferListResponse> {
+        return await this.apiKit.getIncomingTransactions(this.safeConfig.safeAddress, options);
+    }
 
-        // Propose transaction to the service
-        await this.apiKit.proposeTransaction({
-            safeAddress: this.safeConfig.safeAddress,
-            safeTransactionData: safeTransaction.data,
-            safeTxHash,
-            senderAddress: ownerConfig.address,
-            senderSignature: signature.data,
-        });
+    /**
+     * Get a page of multisig transactions
+     */
+    async getMultisigTransactions(
+        options?: GetMultisigTransactionsOptions,
+    ): Promise<SafeMultisigTransactionListResponse> {
+        return await this.apiKit.getMultisigTransactions(this.safeConfig.safeAddress, options);
+    }
 
-        return safeTxHash;
+    /**
+     * Get a page of module transactions
+     */
+    async getModuleTransactions(
+        options?: GetModuleTransactionsOptions,
+    ): Promise<SafeModuleTransactionListResponse> {
+        return await this.apiKit.getModuleTransactions(this.safeConfig.safeAddress, options);
     }
 
     /**
-     * Helper method to create a contract call transaction
+     * Iterate over the pending transactions from `options.offset`, page after page
      */
-    createContractCallTransaction(
-        to: string,
-        data: string,
-        value: string = '0',
-    ): MetaTransactionData {
-        return {
-            to,
-            value,
-            data,
-            operation: OperationType.Call,
-        };
+    async *iteratePendingTransactions(
+        options: PendingTransactionsOptions = {},
+    ): AsyncGenerator<ListItem<SafeMultisigTransactionListResponse>> {
+        // Resolved once, rather than by the API kit for every page
+        const currentNonce = options.currentNonce ?? Number((await this.getSafeInfo()).nonce);
+        yield* paginate(
+            (page) => this.getPendingTransactions({ ...options, currentNonce, ...page }),
+            options,
+        );
     }
 
     /**
-     * Helper method to create a delegate call transaction
+     * Iterate over all transactions from `options.offset`, page after page
      */
-    createDelegateCallTransaction(to: string, data: string): MetaTransactionData {
-        return {
-            to,
-            value: '0',
-            data,
-            operation: OperationType.DelegateCall,
-        };
+    iterateAllTransactions(
+        options: AllTransactionsOptions = {},
+    ): AsyncGenerator<ListItem<AllTransactionsListResponse>> {
+        return paginate((page) => this.getAllTransactions({ ...options, ...page }), options);
     }
 
     /**
-     * Get a specific transaction by hash
+     * Iterate over the incoming transactions from `options.offset`, page after page
      */
-    async getTransaction(safeTxHash: string): Promise<unknown> {
-        return await this.apiKit.getTransaction(safeTxHash);
+    iterateIncomingTransactions(
+        options: GetIncomingTransactionsOptions = {},
+    ): AsyncGenerator<ListItem<TransferListResponse>> {
+        return paginate((page) => this.getIncomingTransactions({ ...options, ...page }), options);
     }
 
-    /*//////////////////////////////////////////////////////////////
-                            LIST-TRANSACTION
-    //////////////////////////////////////////////////////////////*/
+    /**
+     * Iterate over the multisig transactions from `options.offset`, page after page
+     */
+    iterateMultisigTransactions(
+        options: GetMultisigTransactionsOptions = {},
+    ): AsyncGenerator<ListItem<SafeMultisigTransactionListResponse>> {
+        return paginate((page) => this.getMultisigTransactions({ ...options, ...page }), options);
+    }
 
     /**
-     * Get pending transactions
+     * Iterate over the module transactions from `options.offset`, page after page
      */
-    async getPendingTransactions(): Promise<SafeMultisigTransactionListResponse> {
-        return await this.apiKit.getPendingTransactions(this.safeConfig.safeAddress);
+    iterateModuleTransactions(
+        options: GetModuleTransactionsOptions = {},
+    ): AsyncGenerator<ListItem<SafeModuleTransactionListResponse>> {
+        return paginate((page) => this.getModuleTransactions({ ...options, ...page }), options);
     }
 
     /**
-     * Get all transactions
+     * Get the current nonce for the Safe
      */
-    async getAllTransactions(): Promise<AllTransactionsListResponse> {
-        return await this.apiKit.getAllTransactions(this.safeConfig.safeAddress);
+    async getCurrentNonce(): Promise<number> {
+        const ownerConfig = await getProposerConfig();
+        const protocolKit = await this.createProtocolKit(ownerConfig);
+        return await protocolKit.getNonce();
     }
 
     /**
-     * Get incoming transactions
+     * Get the nonce the next `transactionCount` proposals start at, per the nonce strategy
+     *
+     * @param minNonce Lowest nonce the proposals may use, such as the one after queued
+     * transactions they must follow
      */
-    async getIncomingTransactions(): Promise<TransferListResponse> {
-        return await this.apiKit.getIncomingTransactions(this.safeConfig.safeAddress);
+    async resolveStartNonce(transactionCount: number, minNonce: number = 0): Promise<number> {
+        const { mode, nonce } = this.options.nonceStrategy ?? { mode: 'onchain' };
+        const onchainNonce = await this.getCurrentNonce();
+
+        if (mode === 'onchain') {
+            return Math.max(onchainNonce, minNonce);
+        }
+
+        if (mode === 'append') {
+            const queue = this.iteratePendingTransactions({ currentNonce: onchainNonce });
+            let highestQueued = -1;
+            for await (const tx of queue) {
+                highestQueued = Math.max(highestQueued, Number(tx.nonce));
+            }
+            const startNonce = Math.max(onchainNonce, highestQueued + 1, minNonce);
+            logger.info('Appending after queued transactions', { highestQueued, startNonce });
+            return startNonce;
+        }
+
+        const startNonce = nonce as number;
+        this.assertChosenNonce(startNonce, onchainNonce, minNonce);
+
+        if (mode === 'replace' && transactionCount !== 1) {
+            throw new SafeTransactionError(
+                `Nonce mode replace proposes a single Safe transaction, got ${transactionCount}`,
+                ErrorCode.NONCE_CONFLICT,
+                { nonce: startNonce, transactionCount },
+            );
+        }
+
+        return startNonce;
     }
 
     /**
-     * Get multisig transactions
+     * Ensure a nonce given with `--nonce` is neither used nor before the queued transactions the
+     * proposals must follow
      */
-    async getMultisigTransactions(): Promise<SafeMultisigTransactionListResponse> {
-        return await this.apiKit.getMultisigTransactions(this.safeConfig.safeAddress);
+    private assertChosenNonce(startNonce: number, onchainNonce: number, minNonce: number): void {
+        const mode = this.options.nonceStrategy?.mode;
+
+        if (startNonce < onchainNonce) {
+            throw new SafeTransactionError(
+                `Nonce ${startNonce} has already been used, the Safe is at nonce ${onchainNonce}`,
+                ErrorCode.NONCE_CONFLICT,
+                { nonceMode: mode, nonce: startNonce, onchainNonce },
+            );
+        }
+
+        if (startNonce < minNonce) {
+            throw new SafeTransactionError(
+                `Nonce ${startNonce} comes before queued transactions the proposals must follow, use nonce ${minNonce} or above`,
+                ErrorCode.NONCE_CONFLICT,
+                { nonceMode: mode, nonce: startNonce, minNonce },
+            );
+        }
     }
 
     /**
-     * Get module transactions
+     * Get the nonce a transaction was proposed at during this run
      */
-    async getModuleTransactions(): Promise<SafeModuleTransactionListResponse> {
-        return await this.apiKit.getModuleTransactions(this.safeConfig.safeAddress);
+    getProposedNonce(safeTxHash: string): number | undefined {
+        return this.proposedNonces.get(safeTxHash);
     }
 
     /**
-     * Get the current nonce for the Safe
+     * Get the address of the CreateCall library matching the Safe version
      */
-    async getCurrentNonce(): Promise<number> {
-        const ownerConfig = getProposerConfig();
+    async getCreateCallAddress(): Promise<string> {
+        const ownerConfig = await getProposerConfig();
         const protocolKit = await this.createProtocolKit(ownerConfig);
-        return await protocolKit.getNonce();
+        const createCallContract = await getCreateCallContract({
+            safeProvider: protocolKit.getSafeProvider(),
+            safeVersion: await protocolKit.getContractVersion(),
+        });
+        return await createCallContract.getAddress();
+    }
+
+    /**
+     * Get the Safe's account nonce, which determines the address of its next CREATE
+     */
+    async getSafeAccountNonce(): Promise<number> {
+        const provider = new ethers.JsonRpcProvider(this.safeConfig.rpcUrl);
+        try {
+            return await provider.getTransactionCount(this.safeConfig.safeAddress);
+        } finally {
+            provider.destroy();
+        }
+    }
+
+    /**
+     * Ensure a Safe is deployed at the Safe address on the configured chain
+     *
+     * @returns the version of the Safe contract
+     */
+    async assertSafeDeployed(): Promise<string> {
+        const { safeAddress, chainId, rpcUrl } = this.safeConfig;
+        const context = { safeAddress, chainId: chainId.toString() };
+        const provider = new ethers.JsonRpcProvider(rpcUrl);
+
+        try {
+            if ((await provider.getCode(safeAddress)) === '0x') {
+                throw new SafeTransactionError(
+                    `No contract at Safe address ${safeAddress} on ${formatChain(chainId)}`,
+                    ErrorCode.SAFE_NOT_DEPLOYED,
+                    context,
+                );
+            }
+
+            try {
+                const safe = new ethers.Contract(safeAddress, SAFE_ABI, provider);
+                return (await safe.VERSION()) as string;
+            } catch (error) {
+                throw new SafeTransactionError(
+                    `Contract at ${safeAddress} on ${formatChain(chainId)} is not a Safe`,
+                    ErrorCode.SAFE_NOT_DEPLOYED,
+                    { ...context, error: (error as Error).message },
+                );
+            }
+        } finally {
+            provider.destroy();
+        }
     }
 
     /**
@@ -210,6 +1410,23 @@ export class SafeManager {
         return safeInfo.owners;
     }
 
+    /**
+     * Read the owners and threshold from the Safe contract, without the Safe Transaction Service
+     */
+    async getOnChainSetup(): Promise<{ owners: string[]; threshold: number }> {
+        const provider = new ethers.JsonRpcProvider(this.safeConfig.rpcUrl);
+        try {
+            const safe = new ethers.Contract(this.safeConfig.safeAddress, SAFE_ABI, provider);
+            const [owners, threshold] = (await Promise.all([
+                safe.getOwners(),
+                safe.getThreshold(),
+            ])) as [string[], bigint];
+            return { owners: [...owners], threshold: Number(threshold) };
+        } finally {
+            provider.destroy();
+        }
+    }
+
     /**
      * Get the Safe address
      */
@@ -217,6 +1434,13 @@ export class SafeManager {
         return this.safeConfig.safeAddress;
     }
 
+    /**
+     * Get the chain ID the Safe lives on
+     */
+    getChainId(): string {
+        return this.safeConfig.chainId.toString();
+    }
+
     /**
      * Propose a transaction to the Safe with explicit nonce
      */
@@ -224,7 +1448,7 @@ export class SafeManager {
         transactionData: MetaTransactionData,
         nonce: number,
     ): Promise<string> {
-        const ownerConfig = getProposerConfig();
+        const ownerConfig = await getProposerConfig();
         const protocolKit = await this.createProtocolKit(ownerConfig);
 
         logger.debug('Transaction data for proposal', { transactionData });
@@ -238,6 +1462,7 @@ export class SafeManager {
         });
 
         const safeTxHash = await protocolKit.getTransactionHash(safeTransaction);
+        await this.simulateBeforeProposal(protocolKit, safeTransaction, safeTxHash);
         const signature = await protocolKit.signHash(safeTxHash);
 
         logger.debug('Safe transaction data created', {
@@ -257,10 +1482,103 @@ export class SafeManager {
             this.handleProposeTransactionError(error, nonce, transactionData);
             throw error;
         }
+        this.proposedNonces.set(safeTxHash, nonce);
+
+        return safeTxHash;
+    }
+
+    /**
+     * Propose multiple transactions bundled into a single MultiSend Safe transaction
+     */
+    async proposeBatchTransaction(transactionsData: MetaTransactionData[]): Promise<string> {
+        if (transactionsData.length === 0) {
+            throw new SafeTransactionError(
+                'Cannot propose an empty transaction batch',
+                ErrorCode.INVALID_TRANSACTION_DATA,
+            );
+        }
+
+        const ownerConfig = await getProposerConfig();
+        const protocolKit = await this.createProtocolKit(ownerConfig);
+        const nonce = await this.resolveStartNonce(1);
+
+        const safeTransaction = await this.createBatchSafeTransaction(
+            protocolKit,
+            transactionsData,
+            nonce,
+        );
+
+        const safeTxHash = await protocolKit.getTransactionHash(safeTransaction);
+        await this.simulateBeforeProposal(protocolKit, safeTransaction, safeTxHash);
+        const signature = await protocolKit.signHash(safeTxHash);
+
+        logger.debug('Batched Safe transaction data created', {
+            safeTransactionData: safeTransaction.data,
+        });
+
+        try {
+            await this.apiKit.proposeTransaction({
+                safeAddress: this.safeConfig.safeAddress,
+                safeTransactionData: safeTransaction.data,
+                safeTxHash,
+                senderAddress: ownerConfig.address,
+                senderSignature: signature.data,
+            });
+        } catch (error) {
+            this.handleProposeTransactionError(error, nonce, safeTransaction.data);
+            throw error;
+        }
+        this.proposedNonces.set(safeTxHash, nonce);
 
         return safeTxHash;
     }
 
+    /**
+     * Encode multiple transactions as the single MultiSend call a batch proposal would make
+     */
+    async encodeBatchTransaction(
+        transactionsData: MetaTransactionData[],
+    ): Promise<MetaTransactionData> {
+        const ownerConfig = await getProposerConfig();
+        const protocolKit = await this.createProtocolKit(ownerConfig);
+        const safeTransaction = await this.createBatchSafeTransaction(
+            protocolKit,
+            transactionsData,
+            await protocolKit.getNonce(),
+        );
+
+        const { to, value, data, operation } = safeTransaction.data;
+        return { to, value, data, operation };
+    }
+
+    /**
+     * Build the MultiSend Safe transaction for a batch
+     */
+    private async createBatchSafeTransaction(
+        protocolKit: Safe,
+        transactionsData: MetaTransactionData[],
+        nonce: number,
+    ): Promise<SafeTransaction> {
+        // MultiSendCallOnly cannot carry delegatecalls, fall back to MultiSend when needed
+        const onlyCalls = transactionsData.every(
+            (tx) => (tx.operation ?? OperationType.Call) === OperationType.Call,
+        );
+
+        logger.info('Creating batched Safe transaction', {
+            transactionCount: transactionsData.length,
+            nonce,
+            multiSend: onlyCalls ? 'MultiSendCallOnly' : 'MultiSend',
+        });
+
+        return await protocolKit.createTransaction({
+            transactions: transactionsData,
+            onlyCalls,
+            options: {
+                nonce,
+            },
+        });
+    }
+
     /**
      * Handle errors from propose transaction operations
      */
@@ -295,16 +1613,17 @@ export class SafeManager {
     }
 
     /**
-     * Propose multiple transactions with sequential nonces
+     * Propose multiple transactions with sequential nonces, from `minNonce` at the lowest
      */
     async proposeTransactionsWithSequentialNonces(
         transactionsData: MetaTransactionData[],
+        minNonce: number = 0,
     ): Promise<string[]> {
         if (transactionsData.length === 0) {
             return [];
         }
 
-        const baseNonce = await this.getCurrentNonce();
+        const baseNonce = await this.resolveStartNonce(transactionsData.length, minNonce);
         logger.info('Current base nonce', { baseNonce });
         const hashes: string[] = [];
 
@@ -330,10 +1649,15 @@ export class SafeManager {
                     nonce,
                 });
 
-                // If nonce conflict, try to get fresh nonce and retry
-                if (error instanceof Error && error.message.includes('Unprocessable Content')) {
+                // If nonce conflict, try to get fresh nonce and retry (unless the nonce was chosen)
+                const nonceChosen = (this.options.nonceStrategy?.mode ?? 'onchain') !== 'onchain';
+                if (
+                    !nonceChosen &&
+                    error instanceof Error &&
+                    error.message.includes('Unprocessable Content')
+                ) {
                     logger.info('Retrying with fresh nonce');
-                    const freshNonce = await this.getCurrentNonce();
+                    const freshNonce = Math.max(await this.getCurrentNonce(), minNonce);
                     logger.info('Fresh nonce retrieved', { freshNonce });
 
                     if (freshNonce !== nonce) {
@@ -359,3 +1683,58 @@ export class SafeManager {
         return hashes;
     }
 }
+
+/**
+ * Iterate over the items of a Safe Transaction Service listing, fetching the page each `next`
+ * link points to until the last one
+ */
+async function* paginate<T>(
+    fetchPage: (page: ListOptions) => Promise<{ next?: string | null; results: T[] }>,
+    { limit, offset }: ListOptions,
+): AsyncGenerator<T> {
+    let page: ListOptions = { limit, offset };
+
+    for (;;) {
+        const response = await fetchPage(page);
+        yield* response.results;
+
+        if (!response.next) {
+            return;
+        }
+        // Only the position is taken from the link: the filters are sent again as options
+        const params = new URL(response.next).searchParams;
+        page = {
+            limit: Number(params.get('limit')) || limit,
+            offset: Number(params.get('offset')),
+        };
+    }
+}
+
+/**
+ * Safe deployments set in the chain registry, for chains without canonical deployments
+ *
+ * @throws ConfigurationError when only some of the contracts are set
+ */
+function getContractNetworks(chainId: bigint): ContractNetworksConfig | undefined {
+    const contracts = getChain(chainId)?.contracts;
+    if (!contracts) {
+        return undefined;
+    }
+
+    if (!hasEveryContract(contracts)) {
+        const missing = SAFE_CONTRACT_FIELDS.filter((field) => !contracts[field]);
+        throw new ConfigurationError(
+            `Safe contracts of ${formatChain(chainId)} are incomplete, missing ${missing.join(', ')}`,
+            { chainId: chainId.toString(), missing },
+        );
+    }
+
+    const contractNetwork: ContractNetworkConfig = { ...contracts };
+    return { [chainId.toString()]: contractNetwork };
+}
+
+function hasEveryContract(
+    contracts: Partial<Record<SafeContractField, string>>,
+): contracts is Record<SafeContractField, string> {
+    return SAFE_CONTRACT_FIELDS.every((field) => !!contracts[field]);
+}
@@ -0,0 +1,353 @@
+import { SafeProviderConfig } from '@safe-global/protocol-kit';
+import { ethers } from 'ethers';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+    Account,
+    Chain,
+    createWalletClient,
+    defineChain,
+    http,
+    Transport,
+    WalletClient,
+} from 'viem';
+import { toAccount } from 'viem/accounts';
+import { getChain } from './chains';
+import { ConfigurationError } from './errors';
+import { logger } from './logger';
+import { Validator } from './validation';
+
+export type SignerType = 'private-key' | 'keystore' | 'mnemonic' | 'remote';
+
+export const DEFAULT_DERIVATION_PATH = "m/44'/60'/0'/0/0";
+
+// Requests a remote signer answers; everything else goes to the chain RPC
+const REMOTE_SIGNER_METHODS = [
+    'eth_accounts',
+    'eth_requestAccounts',
+    'eth_sign',
+    'personal_sign',
+    'eth_signTypedData_v4',
+    'eth_signTransaction',
+    'eth_sendTransaction',
+];
+
+/** Provider and signer arguments for `Safe.init` */
+export interface ProtocolKitSignerConfig {
+    provider: SafeProviderConfig['provider'];
+    signer: string;
+}
+
+/**
+ * An owner or proposer key, wherever it is kept
+ */
+export interface SafeSigner {
+    readonly type: SignerType;
+    readonly address: string;
+    /** Arguments to initialize the Protocol Kit against `rpcUrl` with this signer */
+    toProtocolKitConfig(rpcUrl: string): ProtocolKitSignerConfig;
+    /** An ethers signer, e.g. to sign EIP-712 typed data, reading the chain through `provider` */
+    toEthersSigner(provider?: ethers.JsonRpcApiProvider): ethers.Signer;
+}
+
+/**
+ * Signer holding its key in memory (hex key, decrypted keystore or mnemonic)
+ */
+export class LocalSigner implements SafeSigner {
+    readonly type: SignerType;
+    readonly address: string;
+    private wallet: ethers.Wallet | ethers.HDNodeWallet;
+
+    constructor(wallet: ethers.Wallet | ethers.HDNodeWallet, type: SignerType) {
+        this.wallet = wallet;
+        this.type = type;
+        this.address = wallet.address;
+    }
+
+    static fromPrivateKey(privateKey: string, fieldName?: string): LocalSigner {
+        Validator.validatePrivateKey(privateKey, fieldName);
+        return new LocalSigner(new ethers.Wallet(privateKey), 'private-key');
+    }
+
+    /**
+     * Decrypt a JSON keystore, given as a path or as a Foundry `cast wallet` account name
+     */
+    static async fromKeystore(keystore: string, password: string): Promise<LocalSigner> {
+        const keystorePath = resolveKeystorePath(keystore);
+        const wallet = await ethers.Wallet.fromEncryptedJson(
+            fs.readFileSync(keystorePath, 'utf8'),
+            password,
+        );
+        return new LocalSigner(wallet, 'keystore');
+    }
+
+    static fromMnemonic(
+        mnemonic: string,
+        derivationPath: string = DEFAULT_DERIVATION_PATH,
+    ): LocalSigner {
+        return new LocalSigner(
+            ethers.HDNodeWallet.fromPhrase(mnemonic.trim(), undefined, derivationPath),
+            'mnemonic',
+        );
+    }
+
+    toProtocolKitConfig(rpcUrl: string): ProtocolKitSignerConfig {
+        return { provider: rpcUrl, signer: this.wallet.privateKey };
+    }
+
+    toEthersSigner(provider?: ethers.JsonRpcApiProvider): ethers.Signer {
+        return this.wallet.connect(provider ?? null);
+    }
+}
+
+/**
+ * Signer whose key lives behind a JSON-RPC endpoint (Clef, Web3Signer, an unlocked node...)
+ */
+export class RemoteSigner implements SafeSigner {
+    readonly type: SignerType = 'remote';
+    readonly address: string;
+    private signerUrl: string;
+    // Providers are created on first use and shared by every Protocol Kit and ethers signer
+    private signerProvider?: ethers.JsonRpcProvider;
+    private chainProviders = new Map<string, ethers.JsonRpcProvider>();
+
+    constructor(signerUrl: string, address: string) {
+        Validator.validateRpcUrl(signerUrl);
+        Validator.validateAddress(address, 'remote signer address');
+        this.signerUrl = signerUrl;
+        this.address = ethers.getAddress(address);
+    }
+
+    /**
+     * Check that the endpoint manages this signer's account
+     */
+    async assertAvailable(): Promise<void> {
+        const accounts = (await this.getSignerProvider().send('eth_accounts', [])) as string[];
+        if (!accounts.some((account) => account.toLowerCase() === this.address.toLowerCase())) {
+            throw new ConfigurationError(`Remote signer does not manage account ${this.address}`, {
+                signerUrl: this.signerUrl,
+                accounts,
+            });
+        }
+    }
+
+    toProtocolKitConfig(rpcUrl: string): ProtocolKitSignerConfig {
+        return {
+            provider: this.routeRequests(this.getChainProvider(rpcUrl)),
+            signer: this.address,
+        };
+    }
+
+    /**
+     * Without a provider, the endpoint also answers the signer's chain reads
+     */
+    toEthersSigner(provider?: ethers.JsonRpcApiProvider): ethers.Signer {
+        if (!provider) {
+            return new ethers.JsonRpcSigner(this.getSignerProvider(), this.address);
+        }
+
+        return new ethers.JsonRpcSigner(
+            new ethers.BrowserProvider(this.routeRequests(provider)),
+            this.address,
+        );
+    }
+
+    /**
+     * EIP-1193 provider sending signing requests to the endpoint and the rest to the chain
+     */
+    private routeRequests(chainProvider: ethers.JsonRpcApiProvider): ethers.Eip1193Provider {
+        const signerProvider = this.getSignerProvider();
+
+        return {
+            request: async ({ method, params }): Promise<unknown> => {
+                const target = REMOTE_SIGNER_METHODS.includes(method)
+                    ? signerProvider
+                    : chainProvider;
+                return (await target.send(method, (params as unknown[]) ?? [])) as unknown;
+            },
+        };
+    }
+
+    private getSignerProvider(): ethers.JsonRpcProvider {
+        this.signerProvider ??= new ethers.JsonRpcProvider(this.signerUrl);
+        return this.signerProvider;
+    }
+
+    private getChainProvider(rpcUrl: string): ethers.JsonRpcProvider {
+        let provider = this.chainProviders.get(rpcUrl);
+        if (!provider) {
+            provider = new ethers.JsonRpcProvider(rpcUrl);
+            this.chainProviders.set(rpcUrl, provider);
+        }
+        return provider;
+    }
+}
+
+/**
+ * Viem wallet client signing EIP-712 typed data with a signer, as the API Kit expects for
+ * delegate requests
+ */
+export function toWalletClient(
+    signer: SafeSigner,
+    chainId: bigint,
+    rpcUrl: string,
+): WalletClient<Transport, Chain, Account> {
+    const ethersSigner = signer.toEthersSigner();
+    const chain = getChain(chainId);
+    const unsupported = (): Promise<never> =>
+        Promise.reject(new Error('Only typed data can be signed through the wallet client'));
+
+    return createWalletClient({
+        account: toAccount({
+            address: signer.address as `0x${string}`,
+            signMessage: unsupported,
+            signTransaction: unsupported,
+            signTypedData: async ({ domain, types, message }) => {
+                // ethers derives the domain type from the domain itself
+                const messageTypes = Object.fromEntries(
+                    Object.entries(types as Record<string, unknown>).filter(
+                        ([name]) => name !== 'EIP712Domain',
+                    ),
+                ) as Record<string, ethers.TypedDataField[]>;
+                return (await ethersSigner.signTypedData(
+                    domain as ethers.TypedDataDomain,
+                    messageTypes,
+                    message as Record<string, unknown>,
+                )) as `0x${string}`;
+            },
+        }),
+        chain: defineChain({
+            id: Number(chainId),
+            name: chain?.name ?? `Chain ${chainId}`,
+            nativeCurrency: chain?.nativeCurrency ?? { name: 'Ether', symbol: 'ETH', decimals: 18 },
+            rpcUrls: { default: { http: [rpcUrl] } },
+        }),
+        transport: http(rpcUrl),
+    });
+}
+
+/**
+ * Build the signer configured by `<prefix>_*` environment variables
+ *
+ * Exactly one backend must be configured:
+ * - `<prefix>_PRIVATE_KEY`: hex private key
+ * - `<prefix>_KEYSTORE` with `<prefix>_PASSWORD_FILE` (or `<prefix>_PASSWORD`): JSON keystore
+ *   path or Foundry `cast wallet` account name
+ * - `<prefix>_MNEMONIC` with optional `<prefix>_DERIVATION_PATH`
+ * - `<prefix>_REMOTE_SIGNER_URL` with `<prefix>_ADDRESS`: JSON-RPC signer endpoint
+ */
+export async function loadSignerFromEnv(
+    prefix: string,
+    env: NodeJS.ProcessEnv = process.env,
+): Promise<SafeSigner> {
+    const configured = getConfiguredSignerTypes(prefix, env);
+
+    if (configured.length === 0) {
+        throw new ConfigurationError(
+            `No signer configured: set ${prefix}_PRIVATE_KEY, ${prefix}_KEYSTORE, ${prefix}_MNEMONIC or ${prefix}_REMOTE_SIGNER_URL`,
+            { prefix },
+        );
+    }
+
+    if (configured.length > 1) {
+        throw new ConfigurationError(`Several signers configured for ${prefix}`, {
+            prefix,
+            signerTypes: configured,
+        });
+    }
+
+    const signer = await createSigner(configured[0], prefix, env);
+    logger.info('Signer loaded', { prefix, type: signer.type, address: signer.address });
+    return signer;
+}
+
+/**
+ * List the signer backends configured for a prefix
+ */
+export function getConfiguredSignerTypes(
+    prefix: string,
+    env: NodeJS.ProcessEnv = process.env,
+): SignerType[] {
+    const variables: Record<SignerType, string> = {
+        'private-key': `${prefix}_PRIVATE_KEY`,
+        keystore: `${prefix}_KEYSTORE`,
+        mnemonic: `${prefix}_MNEMONIC`,
+        remote: `${prefix}_REMOTE_SIGNER_URL`,
+    };
+
+    return (Object.keys(variables) as SignerType[]).filter((type) => !!env[variables[type]]);
+}
+
+async function createSigner(
+    type: SignerType,
+    prefix: string,
+    env: NodeJS.ProcessEnv,
+): Promise<SafeSigner> {
+    switch (type) {
+        case 'private-key':
+            return LocalSigner.fromPrivateKey(
+                env[`${prefix}_PRIVATE_KEY`] as string,
+                `${prefix}_PRIVATE_KEY`,
+            );
+        case 'keystore':
+            return await LocalSigner.fromKeystore(
+                env[`${prefix}_KEYSTORE`] as string,
+                readKeystorePassword(prefix, env),
+            );
+        case 'mnemonic':
+            return LocalSigner.fromMnemonic(
+                env[`${prefix}_MNEMONIC`] as string,
+                env[`${prefix}_DERIVATION_PATH`] || DEFAULT_DERIVATION_PATH,
+            );
+        case 'remote': {
+            const address = env[`${prefix}_ADDRESS`];
+            if (!address) {
+                throw new ConfigurationError(
+                    `${prefix}_ADDRESS is required with ${prefix}_REMOTE_SIGNER_URL`,
+                    { missingVariable: `${prefix}_ADDRESS` },
+                );
+            }
+            const signer = new RemoteSigner(env[`${prefix}_REMOTE_SIGNER_URL`] as string, address);
+            await signer.assertAvailable();
+            return signer;
+        }
+    }
+}
+
+function readKeystorePassword(prefix: string, env: NodeJS.ProcessEnv): string {
+    const passwordFile = env[`${prefix}_PASSWORD_FILE`];
+    if (passwordFile) {
+        // Foundry password files end with a newline that is not part of the password
+        return fs.readFileSync(passwordFile, 'utf8').replace(/\r?\n$/, '');
+    }
+
+    const password = env[`${prefix}_PASSWORD`];
+    if (password === undefined) {
+        throw new ConfigurationError(
+            `${prefix}_PASSWORD_FILE or ${prefix}_PASSWORD is required with ${prefix}_KEYSTORE`,
+            { missingVariable: `${prefix}_PASSWORD_FILE` },
+        );
+    }
+
+    return password;
+}
+
+/**
+ * Resolve a keystore path, falling back to the Foundry keystore directory for account names
+ */
+function resolveKeystorePath(keystore: string): string {
+    if (fs.existsSync(keystore)) {
+        return keystore;
+    }
+
+    const foundryKeystore = path.join(os.homedir(), '.foundry', 'keystores', keystore);
+    if (fs.existsSync(foundryKeystore)) {
+        return foundryKeystore;
+    }
+
+    throw new ConfigurationError(`Keystore not found: ${keystore}`, {
+        keystore,
+        searched: [keystore, foundryKeystore],
+    });
+}
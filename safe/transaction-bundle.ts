@@ -0,0 +1,169 @@
+import { EIP712TypedDataTx } from '@safe-global/types-kit';
+import { ethers } from 'ethers';
+import * as fs from 'fs';
+import { ErrorCode, FileSystemError, SafeTransactionError, ValidationError } from './errors';
+import { readJsonFile } from './utils';
+
+export const BUNDLE_VERSION = 1;
+
+export interface BundleSignature {
+    signer: string;
+    data: string;
+}
+
+/**
+ * Everything an owner needs to review and sign a Safe transaction without network access
+ */
+export interface SafeTransactionBundle {
+    version: number;
+    safeAddress: string;
+    chainId: string;
+    safeVersion: string;
+    safeTxHash: string;
+    nonce: number;
+    domain: EIP712TypedDataTx['domain'];
+    types: EIP712TypedDataTx['types'];
+    primaryType: 'SafeTx';
+    message: EIP712TypedDataTx['message'];
+    signatures: BundleSignature[];
+}
+
+/**
+ * Hash the bundle's typed data the way the Safe contract does
+ */
+export function hashBundle(bundle: SafeTransactionBundle): string {
+    return ethers.TypedDataEncoder.hash(bundle.domain, signingTypes(bundle), bundle.message);
+}
+
+/**
+ * Typed data types without EIP712Domain, which ethers derives itself and rejects
+ */
+function signingTypes(bundle: SafeTransactionBundle): Record<string, ethers.TypedDataField[]> {
+    return { SafeTx: bundle.types.SafeTx };
+}
+
+/**
+ * Ensure the bundle's safeTxHash is derived from its domain and message, and that the domain
+ * is that of the Safe and chain the bundle shows
+ */
+export function verifyBundleHash(bundle: SafeTransactionBundle): void {
+    assertBundleDomain(bundle);
+
+    const computedHash = hashBundle(bundle);
+    if (computedHash.toLowerCase() !== bundle.safeTxHash.toLowerCase()) {
+        throw new SafeTransactionError(
+            `Safe transaction hash mismatch for bundle ${bundle.safeTxHash}`,
+            ErrorCode.SAFE_TX_HASH_MISMATCH,
+            { safeTxHash: bundle.safeTxHash, computedHash },
+        );
+    }
+}
+
+/**
+ * A signature is only valid for the Safe and chain of the domain, which could otherwise differ
+ * from the `safeAddress` and `chainId` shown to the signer
+ */
+function assertBundleDomain(bundle: SafeTransactionBundle): void {
+    const { verifyingContract, chainId } = bundle.domain;
+    // Safes older than 1.3.0 leave the chain out of their domain
+    const chainMatches =
+        chainId === undefined
+            ? /^1\.[0-2]\./.test(bundle.safeVersion)
+            : BigInt(chainId).toString() === bundle.chainId;
+
+    if (verifyingContract?.toLowerCase() !== bundle.safeAddress.toLowerCase() || !chainMatches) {
+        throw new ValidationError(
+            `Bundle ${bundle.safeTxHash} is signed for Safe ${verifyingContract} on chain ${chainId ?? 'unknown'}, not the Safe ${bundle.safeAddress} on chain ${bundle.chainId} it shows`,
+            ErrorCode.INVALID_TRANSACTION_BUNDLE,
+            {
+                safeTxHash: bundle.safeTxHash,
+                domain: bundle.domain,
+                safeAddress: bundle.safeAddress,
+                chainId: bundle.chainId,
+            },
+        );
+    }
+}
+
+/**
+ * Recover the owner address behind a bundle signature
+ */
+export function recoverBundleSigner(bundle: SafeTransactionBundle, signature: string): string {
+    return ethers.recoverAddress(bundle.safeTxHash, signature);
+}
+
+/**
+ * Sign a bundle with a local signer, returning a copy that includes the signature
+ *
+ * Signing is fully offline: the hash is recomputed from the bundle before anything is signed.
+ */
+export async function signBundle(
+    bundle: SafeTransactionBundle,
+    signer: ethers.Signer,
+): Promise<SafeTransactionBundle> {
+    verifyBundleHash(bundle);
+
+    const data = await signer.signTypedData(bundle.domain, signingTypes(bundle), bundle.message);
+    const address = await signer.getAddress();
+
+    const signatures = bundle.signatures.filter(
+        (signature) => signature.signer.toLowerCase() !== address.toLowerCase(),
+    );
+    return { ...bundle, signatures: [...signatures, { signer: address, data }] };
+}
+
+/**
+ * Combine the signatures of several copies of the same bundle
+ */
+export function mergeBundles(bundles: SafeTransactionBundle[]): SafeTransactionBundle {
+    const [first, ...others] = bundles;
+    const signatures = new Map<string, BundleSignature>();
+
+    for (const bundle of bundles) {
+        if (bundle.safeTxHash.toLowerCase() !== first.safeTxHash.toLowerCase()) {
+            throw new ValidationError(
+                `Cannot merge bundles for different transactions (${first.safeTxHash}, ${bundle.safeTxHash})`,
+                ErrorCode.INVALID_TRANSACTION_BUNDLE,
+                { safeTxHashes: [first.safeTxHash, bundle.safeTxHash] },
+            );
+        }
+        bundle.signatures.forEach((signature) =>
+            signatures.set(signature.signer.toLowerCase(), signature),
+        );
+    }
+
+    return others.length === 0 ? first : { ...first, signatures: [...signatures.values()] };
+}
+
+/**
+ * Read and check a bundle file
+ */
+export function readBundle(filePath: string): SafeTransactionBundle {
+    let bundle: SafeTransactionBundle;
+    try {
+        bundle = readJsonFile<SafeTransactionBundle>(filePath);
+    } catch (error) {
+        throw new FileSystemError(
+            `Failed to read transaction bundle: ${filePath}`,
+            ErrorCode.INVALID_TRANSACTION_BUNDLE,
+            { filePath, error: (error as Error).message },
+        );
+    }
+
+    if (bundle.version !== BUNDLE_VERSION || bundle.primaryType !== 'SafeTx') {
+        throw new ValidationError(
+            `Unsupported transaction bundle: ${filePath}`,
+            ErrorCode.INVALID_TRANSACTION_BUNDLE,
+            { filePath, version: bundle.version, primaryType: bundle.primaryType },
+        );
+    }
+
+    return bundle;
+}
+
+/**
+ * Write a bundle file
+ */
+export function writeBundle(filePath: string, bundle: SafeTransactionBundle): void {
+    fs.writeFileSync(filePath, `${JSON.stringify(bundle, null, 2)}\n`);
+}
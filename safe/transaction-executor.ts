@@ -1,16 +1,38 @@
 #!/usr/bin/env ts-node
 
+import { MetaTransactionData } from '@safe-global/types-kit';
 import { spawn } from 'child_process';
 import { AnvilConfig, AnvilManager } from './anvil-manager';
-import { validateEnvironment } from './config';
-import { ErrorCode, SafeTransactionError } from './errors';
+import { CalldataDecoder, DecodedCall, formatDecodedCall } from './calldata-decoder';
+import { formatChain, getSafeTransactionUrl } from './chains';
+import {
+    getActiveNetwork,
+    NetworkConfig,
+    resolveSetting,
+    selectNetwork,
+    setExplicitSettings,
+    validateEnvironment,
+} from './config';
+import { encodeDeployment } from './create-call';
+import { AppError, ErrorCode, NetworkError, SafeTransactionError } from './errors';
+import { createOutput, isStdoutReserved, reserveStdoutForJson, writeOutput } from './json-output';
 import { logger, measurePerformance } from './logger';
-import { SafeManager } from './safe-manager';
+import { enforcePolicy, loadPolicy } from './policy';
+import {
+    parseNonceStrategy,
+    SafeManager,
+    SafeManagerOptions,
+    SafeServiceTransaction,
+} from './safe-manager';
+import { writeBundle } from './transaction-bundle';
+import { SimulationResult } from './transaction-simulator';
 import {
     convertHexToDecimal,
     getAvailableScripts,
     getBroadcastFilePath,
     getChainIdFromRpc,
+    getMultiChainBroadcastFilePath,
+    isSameTransaction,
     parseEnvironmentVariables,
     readJsonFile,
     sleep,
@@ -27,7 +49,7 @@ interface BroadcastTransaction {
     arguments: unknown[];
     transaction: {
         from: string;
-        to: string;
+        to: string | null;
         gas: string;
         value: string;
         input: string;
@@ -49,11 +71,44 @@ interface BroadcastFile {
     multi: boolean;
     commit: string;
 }
+interface MultiChainBroadcastFile {
+    deployments: BroadcastFile[];
+    timestamp: number;
+}
+
 interface TransactionInput {
     to: string;
     value: string;
     data: string;
     operation?: 'call' | 'delegatecall';
+    /** Native value a CreateCall deployment spends from the Safe, which `value` leaves out */
+    deploymentValue?: string;
+}
+
+/**
+ * A Safe transaction for a Safe, as proposed or as a dry run would propose it
+ */
+export interface PlannedTransaction {
+    chainId: string;
+    safeAddress: string;
+    /** The Safe transaction, a MultiSend call in batch mode */
+    transaction: MetaTransactionData;
+    /** Function call decoded from Foundry artifacts and broadcast metadata, when known */
+    decoded?: DecodedCall;
+}
+
+export interface ProposalResult extends PlannedTransaction {
+    safeTxHash: string;
+    status: 'proposed' | 'existing';
+    nonce: number;
+}
+
+/** Queued transactions of the Safe matching the transactions about to be proposed */
+interface PendingDuplicates {
+    /** Identical queued transaction of each candidate, if any */
+    matches: (SafeServiceTransaction | undefined)[];
+    /** Highest nonce of the queue, -1 when it is empty */
+    highestQueuedNonce: number;
 }
 
 interface ExecutionConfig {
@@ -64,28 +119,55 @@ interface ExecutionConfig {
     forgeScript?: string;
     smartContract?: string;
     envVars?: string;
+    batchMode?: boolean;
+    allowRevert?: boolean;
+    /** Simulate each Safe transaction on an Anvil fork before proposing it (default: true) */
+    simulate?: boolean;
+    multi?: boolean;
+    exportBundle?: string;
+    nonceMode?: string;
+    nonce?: string;
+    network?: string;
+    json?: boolean;
+    output?: string;
+    /** Transaction policy file the calls must comply with */
+    policy?: string;
 }
 
 export class TransactionExecutor {
     private safeManager: SafeManager;
     private anvilManager: AnvilManager;
+    private calldataDecoder: CalldataDecoder;
+    private options: SafeManagerOptions;
+    // Simulations run by the per-chain executors of a `--multi` broadcast
+    private otherChainSimulations = new Map<string, SimulationResult>();
+    private dryRunTransactions: PlannedTransaction[] = [];
 
-    private constructor(safeManager: SafeManager) {
+    private constructor(safeManager: SafeManager, options: SafeManagerOptions) {
         this.safeManager = safeManager;
+        this.options = options;
         this.anvilManager = new AnvilManager();
+        this.calldataDecoder = new CalldataDecoder();
     }
     /**
      * Static factory method to create and initialize TransactionExecutor
      */
-    static async create(): Promise<TransactionExecutor> {
-        const safeManager = await SafeManager.create();
-        return new TransactionExecutor(safeManager);
+    static async create(options: SafeManagerOptions = {}): Promise<TransactionExecutor> {
+        const safeManager = await SafeManager.create(options);
+        return new TransactionExecutor(safeManager, options);
+    }
+
+    /**
+     * Release resources held by the executor (simulation fork)
+     */
+    dispose(): void {
+        this.safeManager.dispose();
     }
 
     /**
      * Execute transactions from Foundry script with automatic broadcast generation
      */
-    async executeFromScript(config: ExecutionConfig): Promise<string[]> {
+    async executeFromScript(config: ExecutionConfig): Promise<ProposalResult[]> {
         logger.info('Starting script execution', {
             forgeScript: config.forgeScript,
             smartContract: config.smartContract,
@@ -114,6 +196,11 @@ export class TransactionExecutor {
                 // Execute transactions from broadcast file
                 return await this.processTransactionsFromBroadcast(config, chainId);
             } catch (error) {
+                // Reading the broadcast again cannot fix a chain or Safe mismatch or a policy violation
+                if (isUnrecoverableError(error)) {
+                    throw error;
+                }
+
                 logger.error(
                     'Foundry script execution failed, attempting fallback',
                     error as Error,
@@ -142,6 +229,11 @@ export class TransactionExecutor {
         if (config.rpcUrl) {
             Validator.validateRpcUrl(config.rpcUrl);
         }
+
+        // Reject an invalid policy file before running the script
+        if (config.policy) {
+            loadPolicy(config.policy);
+        }
     }
 
     /**
@@ -223,6 +315,10 @@ export class TransactionExecutor {
             args.push(...options);
         }
 
+        if (config.multi && !args.includes('--multi')) {
+            args.push('--multi');
+        }
+
         return { command, args, contractName, scriptPath, forgeScript };
     }
 
@@ -273,7 +369,7 @@ export class TransactionExecutor {
     private async processTransactionsFromBroadcast(
         config: ExecutionConfig,
         chainId: string,
-    ): Promise<string[]> {
+    ): Promise<ProposalResult[]> {
         logger.info('Processing transactions from broadcast file...');
 
         // Extract contract name from script path for consistent naming
@@ -288,7 +384,128 @@ export class TransactionExecutor {
         const scriptName = config.scriptName || defaultScriptName;
         console.log('Using script name for broadcast file:', scriptName);
 
+        if (isMultiChainRun(config)) {
+            return await this.processMultiChainBroadcast(config, scriptName);
+        }
+
         const transactions = this.readBroadcastFile(scriptName, chainId);
+        await this.assertChainConsistency(transactions, chainId);
+        return await this.proposeBroadcastTransactions(config, transactions, scriptName);
+    }
+
+    /**
+     * Refuse to propose when the broadcast transactions, the RPC and the Safe are on different
+     * chains, or when no Safe is deployed at the Safe address on that chain
+     */
+    private async assertChainConsistency(
+        transactions: BroadcastTransaction[],
+        rpcChainId: string,
+    ): Promise<void> {
+        const safeChainId = this.safeManager.getChainId();
+        const broadcastChainIds = [
+            ...new Set(
+                transactions
+                    .filter((tx) => tx.transaction.chainId)
+                    .map((tx) => BigInt(tx.transaction.chainId).toString()),
+            ),
+        ];
+
+        if (
+            safeChainId !== rpcChainId ||
+            broadcastChainIds.some((broadcastChainId) => broadcastChainId !== rpcChainId)
+        ) {
+            const broadcastChains = broadcastChainIds.map((id) => formatChain(id)).join(', ');
+            throw new NetworkError(
+                `Chain mismatch: broadcast on ${broadcastChains || 'no chain'}, RPC on ${formatChain(rpcChainId)}, Safe on ${formatChain(safeChainId)}`,
+                ErrorCode.CHAIN_ID_MISMATCH,
+                { broadcastChainIds, rpcChainId, safeChainId },
+            );
+        }
+
+        const safeVersion = await this.safeManager.assertSafeDeployed();
+        logger.info('Chain consistency verified', {
+            chainId: safeChainId,
+            safeAddress: this.safeManager.getSafeAddress(),
+            safeVersion,
+        });
+    }
+
+    /**
+     * Propose the calls of a `forge script --multi` run, each group to its chain's Safe
+     */
+    private async processMultiChainBroadcast(
+        config: ExecutionConfig,
+        scriptName: string,
+    ): Promise<ProposalResult[]> {
+        const transactionsByChain = this.readMultiChainBroadcastFile(scriptName);
+        const results: ProposalResult[] = [];
+
+        for (const [chainId, transactions] of transactionsByChain) {
+            console.log(`\n=== Chain ${chainId}: ${transactions.length} transaction(s) ===`);
+
+            const chainExecutor =
+                chainId === this.safeManager.getChainId()
+                    ? this
+                    : await TransactionExecutor.create({ ...this.options, chainId });
+
+            try {
+                await chainExecutor.assertChainConsistency(transactions, chainId);
+                const chainConfig = config.exportBundle
+                    ? {
+                          ...config,
+                          exportBundle: config.exportBundle.replace(
+                              /(\.json)?$/,
+                              `-${chainId}.json`,
+                          ),
+                      }
+                    : config;
+                const chainResults = await chainExecutor.proposeBroadcastTransactions(
+                    chainConfig,
+                    transactions,
+                    scriptName,
+                );
+                results.push(...chainResults);
+                if (chainExecutor !== this) {
+                    this.dryRunTransactions.push(...chainExecutor.getDryRunTransactions());
+                    chainResults.forEach(({ safeTxHash }) => {
+                        const simulation = chainExecutor.getSimulationResult(safeTxHash);
+                        if (simulation) {
+                            this.otherChainSimulations.set(safeTxHash, simulation);
+                        }
+                    });
+                }
+            } finally {
+                if (chainExecutor !== this) {
+                    chainExecutor.dispose();
+                }
+            }
+        }
+
+        console.log('\nPer-chain results:');
+        for (const chainId of transactionsByChain.keys()) {
+            const chainResults = results.filter((result) => result.chainId === chainId);
+            console.log(`   Chain ${chainId}: ${chainResults.length} Safe transaction(s)`);
+            chainResults.forEach((result) => {
+                console.log(`      ${result.safeTxHash} (${result.status})`);
+            });
+        }
+
+        return results;
+    }
+
+    /**
+     * Validate broadcast transactions and propose them to this executor's Safe
+     */
+    private async proposeBroadcastTransactions(
+        config: ExecutionConfig,
+        transactions: BroadcastTransaction[],
+        scriptName: string,
+    ): Promise<ProposalResult[]> {
+        const chainId = this.safeManager.getChainId();
+
+        // Load ABIs so proposals and dry runs show decoded function calls
+        this.calldataDecoder.loadFoundryArtifacts();
+        this.calldataDecoder.registerBroadcastTransactions(transactions);
 
         if (transactions.length === 0) {
             logger.warn('No transactions found in broadcast file', { scriptName, chainId });
@@ -316,10 +533,61 @@ export class TransactionExecutor {
         const fromAddress = safeOwners[0];
         console.log(`Using Safe owner as from address: ${fromAddress}`);
 
-        const transactionInputs = transactions.map((tx, index) => {
+        const transactionInputs = await this.toTransactionInputs(transactions, fromAddress);
+
+        if (config.policy) {
+            enforcePolicy(
+                loadPolicy(config.policy),
+                chainId,
+                transactionInputs.map(({ deploymentValue, ...input }) => ({
+                    ...input,
+                    value: deploymentValue ?? input.value,
+                })),
+            );
+        }
+
+        if (config.exportBundle) {
+            await this.exportTransactions(transactionInputs, config.exportBundle);
+            return [];
+        }
+
+        return await this.executeTransactions(
+            transactionInputs,
+            config.dryRun,
+            config.batchMode ?? true,
+        );
+    }
+
+    /**
+     * Convert broadcast entries to Safe transaction inputs
+     *
+     * Calls are proposed as-is; CREATE deployments become delegatecalls to the CreateCall
+     * library so that the Safe itself deploys the contract, and CREATE2 deployments calls to
+     * their factory.
+     */
+    private async toTransactionInputs(
+        transactions: BroadcastTransaction[],
+        fromAddress: string,
+    ): Promise<TransactionInput[]> {
+        const hasCreates = transactions.some((tx) => tx.transactionType === 'CREATE');
+        const createCallAddress = hasCreates
+            ? await this.safeManager.getCreateCallAddress()
+            : undefined;
+        // Every CREATE performed by the Safe increments its account nonce
+        let accountNonce = hasCreates ? await this.safeManager.getSafeAccountNonce() : 0;
+
+        return transactions.map((tx, index) => {
+            if (tx.transactionType !== 'CALL') {
+                return this.toDeploymentInput(
+                    tx,
+                    createCallAddress,
+                    tx.transactionType === 'CREATE' ? accountNonce++ : accountNonce,
+                );
+            }
+
             try {
                 const txInput = {
-                    to: toChecksumAddress(tx.transaction.to),
+                    to: toChecksumAddress(tx.transaction.to as string),
                     from: fromAddress, // Use one of the Safe owners
                     value: convertHexToDecimal(tx.transaction.value),
                     data: tx.transaction.input,
@@ -337,20 +605,51 @@ export class TransactionExecutor {
                 );
             }
         });
+    }
 
-        return await this.executeTransactions(transactionInputs, config.dryRun);
+    private toDeploymentInput(
+        tx: BroadcastTransaction,
+        createCallAddress: string | undefined,
+        accountNonce: number,
+    ): TransactionInput {
+        const deployment = encodeDeployment(tx, this.safeManager.getSafeAddress(), accountNonce);
+        console.log(
+            `Deployment of ${tx.contractName || 'contract'} at ${deployment.predictedAddress} via ${deployment.factory ? `factory ${deployment.factory}` : 'CreateCall'} (${tx.transactionType})`,
+        );
+
+        if (deployment.factory) {
+            return {
+                to: deployment.factory,
+                value: deployment.value,
+                data: deployment.data,
+                operation: 'call',
+            };
+        }
+
+        // Delegatecalls carry no value: CreateCall spends it from the Safe's balance
+        return {
+            to: toChecksumAddress(createCallAddress as string),
+            value: '0',
+            data: deployment.data,
+            operation: 'delegatecall',
+            deploymentValue: deployment.value,
+        };
     }
 
     /**
      * Fallback to existing broadcast file
      */
-    private async fallbackToBroadcastFile(config: ExecutionConfig): Promise<string[]> {
+    private async fallbackToBroadcastFile(config: ExecutionConfig): Promise<ProposalResult[]> {
         logger.info('Attempting fallback to existing broadcast file...');
 
         try {
             const chainId = await getChainIdFromRpc(config.rpcUrl);
             return await this.processTransactionsFromBroadcast(config, chainId);
         } catch (error) {
+            if (isUnrecoverableError(error)) {
+                throw error;
+            }
+
             logger.error('Fallback to broadcast file failed', error as Error);
             throw new SafeTransactionError(
                 'Both Foundry script execution and broadcast file fallback failed',
@@ -360,31 +659,68 @@ export class TransactionExecutor {
         }
     }
 
+    /**
+     * Write the transactions to an offline signing bundle instead of proposing them
+     */
+    async exportTransactions(transactions: TransactionInput[], bundlePath: string): Promise<void> {
+        if (transactions.length === 0) {
+            console.log('No transactions to export');
+            return;
+        }
+
+        const bundle = await this.safeManager.buildTransactionBundle(
+            this.toMetaTransactions(transactions),
+        );
+        writeBundle(bundlePath, bundle);
+
+        console.log(`\nExported ${transactions.length} transaction(s) as one Safe transaction:`);
+        console.log(`   Safe Tx Hash: ${bundle.safeTxHash}`);
+        console.log(`   Nonce: ${bundle.nonce}`);
+        console.log(`   Bundle: ${bundlePath}`);
+        this.displaySimulationResults([bundle.safeTxHash]);
+    }
+
+    /**
+     * Convert transaction inputs to MetaTransactionData
+     */
+    private toMetaTransactions(transactions: TransactionInput[]): MetaTransactionData[] {
+        return transactions.map((tx) =>
+            tx.operation === 'delegatecall'
+                ? this.safeManager.createDelegateCallTransaction(tx.to, tx.data)
+                : this.safeManager.createContractCallTransaction(tx.to, tx.data, tx.value),
+        );
+    }
+
     /**
      * Execute multiple transactions with proper nonce management
      */
     async executeTransactions(
         transactions: TransactionInput[],
         dryRun: boolean = false,
-    ): Promise<string[]> {
+        batchMode: boolean = true,
+    ): Promise<ProposalResult[]> {
         if (transactions.length === 0) {
             console.log('No transactions to execute');
             return [];
         }
 
+        const batched = batchMode && transactions.length > 1;
+
         console.log(`${dryRun ? 'Dry run: ' : ''}Executing ${transactions.length} transaction(s)`);
+        if (batched) {
+            console.log('Batch mode: transactions will be bundled into a single MultiSend');
+        }
 
         if (dryRun) {
             this.displayTransactions(transactions);
+            this.dryRunTransactions.push(
+                ...this.toMetaTransactions(transactions).map((tx) => this.toPlannedTransaction(tx)),
+            );
             return [];
         }
 
         // Convert transaction inputs to MetaTransactionData
-        const transactionsData = transactions.map((tx) =>
-            tx.operation === 'delegatecall'
-                ? this.safeManager.createDelegateCallTransaction(tx.to, tx.data)
-                : this.safeManager.createContractCallTransaction(tx.to, tx.data, tx.value),
-        );
+        const transactionsData = this.toMetaTransactions(transactions);
 
         // Display transaction details
         transactions.forEach((tx, index) => {
@@ -392,14 +728,212 @@ export class TransactionExecutor {
             console.log(`   To: ${tx.to}`);
             console.log(`   Value: ${tx.value}`);
             console.log(`   Operation: ${tx.operation || 'call'}`);
+            this.calldataDecoder.describe(tx.to, tx.data).forEach((line) => console.log(line));
+        });
+
+        const proposals = batched
+            ? await this.proposeBatch(transactionsData)
+            : await this.proposeSequentially(transactionsData);
+
+        this.displayProposalSummary(proposals);
+        this.displaySimulationResults(
+            proposals.filter((p) => p.status === 'proposed').map((p) => p.safeTxHash),
+        );
+        return proposals;
+    }
+
+    /**
+     * Find, for each candidate, an identical transaction already queued in the Safe service
+     */
+    private async findPendingDuplicates(
+        candidates: MetaTransactionData[],
+    ): Promise<PendingDuplicates> {
+        const pending: SafeServiceTransaction[] = [];
+        for await (const tx of this.safeManager.iteratePendingTransactions()) {
+            pending.push(tx);
+        }
+        const claimed = new Set<string>();
+
+        const matches = candidates.map((candidate) => {
+            const match = pending.find(
+                (tx) => !claimed.has(tx.safeTxHash) && isSameTransaction(tx, candidate),
+            );
+            if (match) {
+                claimed.add(match.safeTxHash);
+            }
+            return match;
+        });
+
+        return {
+            matches,
+            highestQueuedNonce: Math.max(-1, ...pending.map((tx) => Number(tx.nonce))),
+        };
+    }
+
+    /**
+     * Display which transactions were newly proposed and which were already queued
+     */
+    private displayProposalSummary(proposals: ProposalResult[]): void {
+        const existingCount = proposals.filter((p) => p.status === 'existing').length;
+
+        console.log(
+            `\nProposal summary: ${proposals.length - existingCount} new, ${existingCount} already queued`,
+        );
+        proposals.forEach((proposal, index) => {
+            const label = proposal.status === 'existing' ? 'already queued' : 'new';
+            console.log(
+                `   ${index + 1}. ${proposal.safeTxHash} (nonce ${proposal.nonce}, ${label})`,
+            );
+            const safeUrl = getSafeTransactionUrl(
+                proposal.chainId,
+                proposal.safeAddress,
+                proposal.safeTxHash,
+            );
+            if (safeUrl) {
+                console.log(`      ${safeUrl}`);
+            }
+        });
+    }
+
+    /**
+     * Display the fork simulation outcome of each proposed transaction
+     */
+    private displaySimulationResults(safeTxHashes: string[]): void {
+        console.log('\nSimulation results:');
+        safeTxHashes.forEach((hash, index) => {
+            const result = this.safeManager.getSimulationResult(hash);
+            if (!result) {
+                console.log(`   ${index + 1}. ${hash}: not simulated`);
+                return;
+            }
+
+            const details =
+                result.status === 'success'
+                    ? `gas used ${result.gasUsed}, ${result.events.length} event(s)`
+                    : result.revertReason || 'Anvil not available';
+            console.log(`   ${index + 1}. ${hash}: ${result.status} (${details})`);
         });
+    }
+
+    /**
+     * Propose all transactions as a single MultiSend Safe transaction
+     */
+    private async proposeBatch(transactionsData: MetaTransactionData[]): Promise<ProposalResult[]> {
+        const batchData = await this.safeManager.encodeBatchTransaction(transactionsData);
+        const {
+            matches: [existing],
+        } = await this.findPendingDuplicates([batchData]);
+
+        if (existing) {
+            console.log(`\nIdentical batch already pending, reusing ${existing.safeTxHash}`);
+            return [
+                this.toProposalResult(
+                    existing.safeTxHash,
+                    'existing',
+                    Number(existing.nonce),
+                    batchData,
+                ),
+            ];
+        }
+
+        console.log(`\nProposing ${transactionsData.length} transactions as a single batch...`);
+
+        const safeTxHash = await this.safeManager.proposeBatchTransaction(transactionsData);
+
+        console.log('\nBatch transaction proposed successfully!');
+        console.log('\nSafe Transaction Hash:');
+        console.log(`   1. ${safeTxHash}`);
+
+        return [
+            this.toProposalResult(
+                safeTxHash,
+                'proposed',
+                this.safeManager.getProposedNonce(safeTxHash) as number,
+                batchData,
+            ),
+        ];
+    }
+
+    /**
+     * Propose each transaction as its own Safe transaction, skipping already pending ones
+     *
+     * When some are reused from the queue, the new ones are proposed after the whole queue so
+     * they execute after the reused ones
+     */
+    private async proposeSequentially(
+        transactionsData: MetaTransactionData[],
+    ): Promise<ProposalResult[]> {
+        const { matches: existing, highestQueuedNonce } =
+            await this.findPendingDuplicates(transactionsData);
+        const newTransactions = transactionsData.filter((_, index) => !existing[index]);
+        const minNonce = existing.some(Boolean) ? highestQueuedNonce + 1 : 0;
+
+        existing.forEach((tx, index) => {
+            if (tx) {
+                console.log(`\nTransaction ${index + 1} already pending, reusing ${tx.safeTxHash}`);
+            }
+        });
+
+        const newHashes =
+            newTransactions.length > 0
+                ? await this.proposeWithFallback(newTransactions, minNonce)
+                : [];
+
+        let nextNewHash = 0;
+        return existing.map((tx, index): ProposalResult => {
+            if (tx) {
+                return this.toProposalResult(
+                    tx.safeTxHash,
+                    'existing',
+                    Number(tx.nonce),
+                    transactionsData[index],
+                );
+            }
+
+            const safeTxHash = newHashes[nextNewHash++];
+            return this.toProposalResult(
+                safeTxHash,
+                'proposed',
+                this.safeManager.getProposedNonce(safeTxHash) as number,
+                transactionsData[index],
+            );
+        });
+    }
+
+    private toProposalResult(
+        safeTxHash: string,
+        status: ProposalResult['status'],
+        nonce: number,
+        transaction: MetaTransactionData,
+    ): ProposalResult {
+        return { ...this.toPlannedTransaction(transaction), safeTxHash, status, nonce };
+    }
+
+    private toPlannedTransaction(transaction: MetaTransactionData): PlannedTransaction {
+        return {
+            chainId: this.safeManager.getChainId(),
+            safeAddress: this.safeManager.getSafeAddress(),
+            transaction,
+            decoded: this.calldataDecoder.decode(transaction.to, transaction.data),
+        };
+    }
 
+    /**
+     * Propose transactions with sequential nonces from `minNonce` at the lowest, falling back to
+     * individual proposals
+     */
+    private async proposeWithFallback(
+        transactionsData: MetaTransactionData[],
+        minNonce: number,
+    ): Promise<string[]> {
         console.log('\nProposing transactions with sequential nonces...');
 
         try {
             // Try using the new sequential nonce method
-            const proposedHashes =
-                await this.safeManager.proposeTransactionsWithSequentialNonces(transactionsData);
+            const proposedHashes = await this.safeManager.proposeTransactionsWithSequentialNonces(
+                transactionsData,
+                minNonce,
+            );
 
             console.log('\nAll transactions executed successfully!');
             console.log('\nSafe Transaction Hashes:');
@@ -412,16 +946,23 @@ export class TransactionExecutor {
             console.error('Sequential nonce method failed:', error);
             console.log('Falling back to individual transaction proposal...');
 
-            // Fallback to individual transaction proposal
+            // Fallback to individual transaction proposal, at the nonces the strategy gives
             const proposedHashes: string[] = [];
+            const baseNonce = await this.safeManager.resolveStartNonce(
+                transactionsData.length,
+                minNonce,
+            );
 
             for (let i = 0; i < transactionsData.length; i++) {
                 console.log(
-                    `\nProposing transaction ${i + 1}/${transactionsData.length} (individual):`,
+                    `\nProposing transaction ${i + 1}/${transactionsData.length} (individual, nonce ${baseNonce + i}):`,
                 );
 
                 try {
-                    const hash = await this.safeManager.proposeTransaction(transactionsData[i]);
+                    const hash = await this.safeManager.proposeTransactionWithNonce(
+                        transactionsData[i],
+                        baseNonce + i,
+                    );
                     proposedHashes.push(hash);
                     console.log(`   Success! Hash: ${hash}`);
 
@@ -483,7 +1024,8 @@ export class TransactionExecutor {
 
                 const childProcess = spawn(command, args, {
                     cwd: process.cwd(),
-                    stdio: 'inherit',
+                    // In JSON mode, stdout only holds the JSON document
+                    stdio: ['inherit', isStdoutReserved() ? process.stderr : 'inherit', 'inherit'],
                     env,
                 });
 
@@ -508,13 +1050,16 @@ export class TransactionExecutor {
             console.log('Broadcast file loaded successfully');
             console.log('Total transactions in file:', broadcastData.transactions.length);
 
-            // Filter for CALL transactions only (deployments and other types should be excluded)
-            const callTransactions = broadcastData.transactions.filter(
-                (tx) => tx.transactionType === 'CALL',
+            const deploymentCount = broadcastData.transactions.filter(
+                (tx) => tx.transactionType !== 'CALL',
+            ).length;
+            console.log(
+                'CALL transactions found:',
+                broadcastData.transactions.length - deploymentCount,
             );
-            console.log('CALL transactions found:', callTransactions.length);
+            console.log('Deployments found:', deploymentCount);
 
-            return callTransactions;
+            return broadcastData.transactions;
         } catch (error) {
             console.error('Error reading broadcast file:', error);
             throw new SafeTransactionError(
@@ -525,6 +1070,37 @@ export class TransactionExecutor {
         }
     }
 
+    /**
+     * Read a `--multi` broadcast file and group its transactions by chain ID
+     */
+    private readMultiChainBroadcastFile(scriptName: string): Map<string, BroadcastTransaction[]> {
+        const broadcastPath = getMultiChainBroadcastFilePath(scriptName);
+        console.log('Reading multi-chain broadcast file from:', broadcastPath);
+
+        try {
+            const broadcastData: MultiChainBroadcastFile = readJsonFile(broadcastPath);
+            const transactionsByChain = new Map<string, BroadcastTransaction[]>();
+
+            for (const deployment of broadcastData.deployments) {
+                const chainId = deployment.chain.toString();
+                transactionsByChain.set(chainId, [
+                    ...(transactionsByChain.get(chainId) || []),
+                    ...deployment.transactions,
+                ]);
+                console.log(`Chain ${chainId}: ${deployment.transactions.length} transaction(s)`);
+            }
+
+            return transactionsByChain;
+        } catch (error) {
+            console.error('Error reading multi-chain broadcast file:', error);
+            throw new SafeTransactionError(
+                `Failed to read multi-chain broadcast file: ${broadcastPath}`,
+                ErrorCode.INVALID_BROADCAST_FILE,
+                { scriptName, error },
+            );
+        }
+    }
+
     /**
      * Display transactions in a readable format
      */
@@ -536,6 +1112,10 @@ export class TransactionExecutor {
             console.log(`   Value: ${tx.value}`);
             console.log(`   Data: ${tx.data}`);
             console.log(`   Operation: ${tx.operation || 'call'}`);
+            const decoded = this.calldataDecoder.decode(tx.to, tx.data);
+            if (decoded) {
+                formatDecodedCall(decoded).forEach((line) => console.log(line));
+            }
         });
     }
 
@@ -545,6 +1125,47 @@ export class TransactionExecutor {
     async getCurrentNonce(): Promise<number> {
         return await this.safeManager.getCurrentNonce();
     }
+
+    /**
+     * Get the Safe transactions the dry runs of this executor would have proposed, one per call
+     */
+    getDryRunTransactions(): PlannedTransaction[] {
+        return [...this.dryRunTransactions];
+    }
+
+    /**
+     * Get the fork simulation result of a proposed transaction
+     */
+    getSimulationResult(safeTxHash: string): SimulationResult | undefined {
+        return (
+            this.safeManager.getSimulationResult(safeTxHash) ??
+            this.otherChainSimulations.get(safeTxHash)
+        );
+    }
+}
+
+/**
+ * Check whether an error comes from `assertChainConsistency`, the transaction policy or the
+ * fork simulation, which reading the broadcast again cannot fix
+ */
+function isUnrecoverableError(error: unknown): boolean {
+    return (
+        error instanceof AppError &&
+        [
+            ErrorCode.CHAIN_ID_MISMATCH,
+            ErrorCode.SAFE_NOT_DEPLOYED,
+            ErrorCode.POLICY_VIOLATION,
+            ErrorCode.SIMULATION_FAILED,
+            ErrorCode.ANVIL_START_FAILED,
+        ].includes(error.code)
+    );
+}
+
+/**
+ * Check whether the script runs with `forge script --multi`
+ */
+function isMultiChainRun(config: ExecutionConfig): boolean {
+    return !!config.multi || /(^|\s)--multi(\s|$)/.test(config.forgeOptions || '');
 }
 
 // CLI functionality
@@ -558,18 +1179,39 @@ Transaction Executor
 Usage: npm run execute-tx -- [options]
 
 Script execution options:
-  --rpc-url <url>         RPC URL (default: http://localhost:8545)
+  --network <name>        Network of the project configuration file (safe.config.json/yaml):
+                          its RPC URL, Safe, Transaction Service and default script
+  --rpc-url <url>         RPC URL (default: RPC_URL_<chainId>, RPC_URL, the network's, or
+                          http://localhost:8545); the Safe is looked up on the same RPC
   --script <name>         Script name for broadcast file (default: IexecLayerZeroBridge)
   --forge-script <path>   Forge script path (default: script/bridges/layerZero/IexecLayerZeroBridge.s.sol:Configure)
   --smart-contract <name> Smart contract name (default: Configure)
   --env-vars <vars>       Environment variables as string: "KEY1=value1 KEY2=value2"
   --forge-options <opts>  Additional forge options
   --dry-run              Show transactions without executing
+  --no-batch             Propose each call as its own Safe transaction instead of a single MultiSend
+  --allow-revert         Propose transactions even if their fork simulation reverts
+  --no-simulate          Propose without simulating on an Anvil fork (required when Anvil is not installed)
+  --nonce-mode <mode>    How proposal nonces are chosen: onchain (default), append (after the
+                         highest queued nonce), replace (a single transaction at --nonce),
+                         start (sequential nonces from --nonce)
+  --nonce <n>            Nonce used by the replace and start modes
+  --export-bundle <file> Write the calls as one Safe transaction bundle for offline signing
+                         (see npm run offline-sign) instead of proposing them
+  --multi                Run the script with --multi and propose each chain's calls to that chain's Safe
+                         (uses RPC_URL_<chainId> and SAFE_ADDRESS_<chainId> when set)
+  --policy <file>        Refuse to propose calls violating this transaction policy (JSON or YAML)
+
+Output options:
+  --json                 Print the proposals (or dry-run transactions) as a JSON document on stdout,
+                         and everything else on stderr
+  --output <file>        Also write the JSON document to a file
 
 Examples:
   npm run execute-tx -- --rpc-url https://eth-sepolia.g.alchemy.com/v2/YOUR_API_KEY --env-vars "SOURCE_CHAIN=sepolia TARGET_CHAIN=arbitrum-sepolia"
   npm run execute-tx -- --rpc-url https://arb-mainnet.g.alchemy.com/v2/YOUR_API_KEY --smart-contract Deploy
   npm run execute-tx -- --rpc-url http://localhost:8545 --forge-script "script/bridges/layerZero/IexecLayerZeroBridge.s.sol:Configure"
+  npm run execute-tx -- --network arbitrum --dry-run
 
 Available scripts: ${getAvailableScripts().join(', ')}
     `);
@@ -577,21 +1219,67 @@ Available scripts: ${getAvailableScripts().join(', ')}
     }
 
     try {
-        await validateEnvironment();
+        const config = parseExecutionArgs(args);
+        if (config.json) {
+            reserveStdoutForJson();
+        }
+        if (config.network) {
+            applyNetwork(config, selectNetwork(config.network));
+        }
+        // Forge runs against the RPC the Safe settings resolve to, --rpc-url first
+        setExplicitSettings({ rpcUrl: config.rpcUrl });
+        config.rpcUrl = resolveSetting('rpcUrl', getActiveNetwork()?.chainId) || DEFAULT_RPC_URL;
 
-        const executor = await TransactionExecutor.create();
-        await executeScriptCommand(executor, args);
+        validateExecutionArgs(config);
+        await validateEnvironment();
+        await executeScriptCommand(config);
     } catch (error) {
         console.error('Execution failed:', error);
         process.exit(1);
     }
 }
 
+const DEFAULT_RPC_URL = 'http://localhost:8545';
+
+/**
+ * Command line options that take a value, mapped to the config field they set
+ */
+const VALUE_OPTIONS: Record<string, (config: ExecutionConfig, value: string) => void> = {
+    '--rpc-url': (config, value) => (config.rpcUrl = value),
+    '--script': (config, value) => (config.scriptName = value),
+    '--forge-options': (config, value) => (config.forgeOptions = value),
+    '--forge-script': (config, value) => (config.forgeScript = value),
+    '--smart-contract': (config, value) => (config.smartContract = value),
+    '--env-vars': (config, value) => (config.envVars = value),
+    '--export-bundle': (config, value) => (config.exportBundle = value),
+    '--nonce-mode': (config, value) => (config.nonceMode = value),
+    '--nonce': (config, value) => (config.nonce = value),
+    '--network': (config, value) => (config.network = value),
+    '--output': (config, value) => (config.output = value),
+    '--policy': (config, value) => (config.policy = value),
+};
+
+/**
+ * Command line boolean switches, mapped to the config field they set
+ */
+const SWITCH_OPTIONS: Record<string, (config: ExecutionConfig) => void> = {
+    '--dry-run': (config) => (config.dryRun = true),
+    '--no-batch': (config) => (config.batchMode = false),
+    '--allow-revert': (config) => (config.allowRevert = true),
+    '--no-simulate': (config) => (config.simulate = false),
+    '--multi': (config) => (config.multi = true),
+    '--json': (config) => (config.json = true),
+};
+
 /**
  * Parse command line arguments
  */
 function parseExecutionArgs(args: string[]): ExecutionConfig {
-    const config: ExecutionConfig = { dryRun: false, rpcUrl: 'http://localhost:8545' };
+    const config: ExecutionConfig = {
+        dryRun: false,
+        rpcUrl: '',
+        batchMode: true,
+    };
 
     for (let i = 0; i < args.length; i++) {
         const arg = args[i];
@@ -601,34 +1289,25 @@ function parseExecutionArgs(args: string[]): ExecutionConfig {
             continue;
         }
 
-        switch (arg) {
-            case '--rpc-url':
-                config.rpcUrl = args[++i];
-                break;
-            case '--script':
-                config.scriptName = args[++i];
-                break;
-            case '--forge-options':
-                config.forgeOptions = args[++i];
-                break;
-            case '--forge-script':
-                config.forgeScript = args[++i];
-                break;
-            case '--smart-contract':
-                config.smartContract = args[++i];
-                break;
-            case '--env-vars':
-                config.envVars = args[++i];
-                break;
-            case '--dry-run':
-                config.dryRun = true;
-                break;
+        if (Object.prototype.hasOwnProperty.call(VALUE_OPTIONS, arg)) {
+            VALUE_OPTIONS[arg](config, args[++i]);
+        } else if (Object.prototype.hasOwnProperty.call(SWITCH_OPTIONS, arg)) {
+            SWITCH_OPTIONS[arg](config);
         }
     }
 
     return config;
 }
 
+/**
+ * Fill the script options left unset on the command line from the selected network
+ */
+function applyNetwork(config: ExecutionConfig, network: NetworkConfig): void {
+    if (!config.forgeScript && !config.smartContract && !config.envVars) {
+        config.forgeScript = network.defaultScript;
+    }
+}
+
 /**
  * Validate execution configuration
  */
@@ -657,10 +1336,24 @@ function validateExecutionArgs(config: ExecutionConfig): void {
     }
 }
 
-async function executeScriptCommand(executor: TransactionExecutor, args: string[]): Promise<void> {
-    const config = parseExecutionArgs(args);
-    validateExecutionArgs(config);
-    await executor.executeFromScript(config);
+async function executeScriptCommand(config: ExecutionConfig): Promise<void> {
+    const executor = await TransactionExecutor.create({
+        allowRevert: config.allowRevert,
+        simulate: config.simulate,
+        nonceStrategy: parseNonceStrategy(config.nonceMode, config.nonce),
+    });
+    try {
+        const proposals = await executor.executeFromScript(config);
+
+        if ((config.json || config.output) && !config.exportBundle) {
+            const document = config.dryRun
+                ? createOutput('dry-run', { transactions: executor.getDryRunTransactions() })
+                : createOutput('proposals', { proposals });
+            writeOutput(document, { json: config.json, outputFile: config.output });
+        }
+    } finally {
+        executor.dispose();
+    }
 }
 
 if (require.main === module) {
@@ -0,0 +1,261 @@
+import { OperationType, SafeTransaction } from '@safe-global/types-kit';
+import { ethers } from 'ethers';
+import * as net from 'net';
+import { AnvilManager } from './anvil-manager';
+import { ErrorCode, FoundryError } from './errors';
+import { logger } from './logger';
+
+export interface SimulationEvent {
+    address: string;
+    topics: string[];
+    data: string;
+}
+
+export interface SimulationResult {
+    status: 'success' | 'reverted';
+    success: boolean;
+    revertReason?: string;
+    gasUsed?: string;
+    events: SimulationEvent[];
+    executor?: string;
+}
+
+const SAFE_ABI = [
+    'function execTransaction(address to, uint256 value, bytes data, uint8 operation, uint256 safeTxGas, uint256 baseGas, uint256 gasPrice, address gasToken, address refundReceiver, bytes signatures) payable returns (bool success)',
+    'event ExecutionFailure(bytes32 txHash, uint256 payment)',
+];
+
+// Storage slot of `threshold` in the Safe singleton layout (v1.3.0 and v1.4.1)
+const SAFE_THRESHOLD_SLOT = '0x4';
+const EXECUTOR_BALANCE = ethers.toQuantity(ethers.parseEther('100'));
+
+/**
+ * Runs fully built Safe transactions through `execTransaction` on an Anvil fork
+ */
+export class TransactionSimulator {
+    private anvilManager: AnvilManager;
+    private forkUrl: string;
+    // Free port picked when the fork starts, unless one is given
+    private port?: number;
+    private provider: ethers.JsonRpcProvider | null = null;
+    private safeInterface = new ethers.Interface(SAFE_ABI);
+
+    constructor(forkUrl: string, port?: number) {
+        this.forkUrl = forkUrl;
+        this.port = port;
+        this.anvilManager = new AnvilManager();
+    }
+
+    /**
+     * Simulate a Safe transaction, impersonating `executor` and forcing the threshold to 1
+     */
+    async simulate(
+        safeTransaction: SafeTransaction,
+        safeAddress: string,
+        executor: string,
+    ): Promise<SimulationResult> {
+        const provider = await this.ensureFork();
+
+        const code = await provider.getCode(safeAddress);
+        if (code === '0x') {
+            return this.reverted(`No Safe contract deployed at ${safeAddress}`, executor);
+        }
+
+        await this.prepareSafe(provider, safeAddress, executor);
+
+        const request = {
+            from: executor,
+            to: safeAddress,
+            data: this.encodeExecTransaction(safeTransaction, executor),
+        };
+
+        // Dry call first so the revert reason is available before anything is mined
+        try {
+            await provider.call(request);
+        } catch (error) {
+            const reason = await this.explainRevert(provider, safeTransaction, safeAddress, error);
+            return this.reverted(reason, executor);
+        }
+
+        const txHash = (await provider.send('eth_sendTransaction', [request])) as string;
+        const receipt = await provider.waitForTransaction(txHash);
+        if (!receipt) {
+            return this.reverted('Simulation transaction was not mined', executor);
+        }
+
+        const events = receipt.logs.map((log) => ({
+            address: log.address,
+            topics: [...log.topics],
+            data: log.data,
+        }));
+        const failureTopic = this.safeInterface.getEvent('ExecutionFailure')?.topicHash;
+        const executionFailed = events.some(
+            (event) =>
+                event.address === ethers.getAddress(safeAddress) &&
+                event.topics[0] === failureTopic,
+        );
+
+        if (receipt.status !== 1 || executionFailed) {
+            return { ...this.reverted('Safe reported ExecutionFailure', executor), events };
+        }
+
+        return {
+            status: 'success',
+            success: true,
+            gasUsed: receipt.gasUsed.toString(),
+            events,
+            executor,
+        };
+    }
+
+    /**
+     * Stop the simulation fork
+     */
+    stop(): void {
+        this.provider?.destroy();
+        this.provider = null;
+        this.anvilManager.stop();
+    }
+
+    /**
+     * Start the Anvil fork on first use
+     *
+     * @throws FoundryError when Anvil is not installed, rather than proposing unsimulated
+     */
+    private async ensureFork(): Promise<ethers.JsonRpcProvider> {
+        if (this.provider) {
+            return this.provider;
+        }
+
+        if (!(await this.anvilManager.checkAvailability())) {
+            throw new FoundryError(
+                'Anvil is not installed: Safe transactions cannot be simulated before being proposed',
+                ErrorCode.SIMULATION_FAILED,
+                {
+                    hint: 'Install Foundry, or disable the simulation with --no-simulate (simulate: false in the action)',
+                },
+            );
+        }
+
+        // Each chain of a multi-chain run has its own simulator, whose forks run side by side
+        this.port ??= await findFreePort();
+        try {
+            await this.anvilManager.startFork({
+                forkUrl: this.forkUrl,
+                host: '127.0.0.1',
+                port: this.port,
+            });
+        } catch (error) {
+            throw new FoundryError(
+                'Failed to start Anvil fork for simulation',
+                ErrorCode.ANVIL_START_FAILED,
+                { port: this.port, originalError: (error as Error).message },
+            );
+        }
+
+        const rpcUrl = this.anvilManager.getRpcUrl() ?? `http://127.0.0.1:${this.port}`;
+        this.provider = new ethers.JsonRpcProvider(rpcUrl, undefined, { staticNetwork: true });
+
+        logger.info('Simulation fork ready', { rpcUrl });
+        return this.provider;
+    }
+
+    /**
+     * Impersonate the executor and lower the threshold so a single approval is enough
+     */
+    private async prepareSafe(
+        provider: ethers.JsonRpcProvider,
+        safeAddress: string,
+        executor: string,
+    ): Promise<void> {
+        await provider.send('anvil_impersonateAccount', [executor]);
+        await provider.send('anvil_setBalance', [executor, EXECUTOR_BALANCE]);
+        await provider.send('anvil_setStorageAt', [
+            safeAddress,
+            SAFE_THRESHOLD_SLOT,
+            ethers.zeroPadValue('0x01', 32),
+        ]);
+    }
+
+    /**
+     * Encode `execTransaction` with a pre-approved signature for the executor
+     *
+     * A signature with v = 1 and r = owner is accepted when the owner is msg.sender.
+     */
+    private encodeExecTransaction(safeTransaction: SafeTransaction, executor: string): string {
+        const tx = safeTransaction.data;
+        const signature = ethers.concat([
+            ethers.zeroPadValue(executor, 32),
+            ethers.ZeroHash,
+            '0x01',
+        ]);
+
+        return this.safeInterface.encodeFunctionData('execTransaction', [
+            tx.to,
+            tx.value,
+            tx.data,
+            tx.operation,
+            tx.safeTxGas,
+            tx.baseGas,
+            tx.gasPrice,
+            tx.gasToken,
+            tx.refundReceiver,
+            signature,
+        ]);
+    }
+
+    /**
+     * Build a readable revert reason, digging into the inner call when the Safe hides it
+     */
+    private async explainRevert(
+        provider: ethers.JsonRpcProvider,
+        safeTransaction: SafeTransaction,
+        safeAddress: string,
+        error: unknown,
+    ): Promise<string> {
+        const reason = describeRevert(error);
+        const tx = safeTransaction.data;
+
+        // GS013: the inner call failed with safeTxGas = 0, replay it from the Safe directly
+        if (!reason.includes('GS013') || tx.operation !== OperationType.Call) {
+            return reason;
+        }
+
+        try {
+            await provider.call({ from: safeAddress, to: tx.to, value: tx.value, data: tx.data });
+            return reason;
+        } catch (innerError) {
+            return `${reason} (inner call: ${describeRevert(innerError)})`;
+        }
+    }
+
+    private reverted(revertReason: string, executor: string): SimulationResult {
+        logger.warn('Safe transaction simulation reverted', { revertReason });
+        return { status: 'reverted', success: false, revertReason, events: [], executor };
+    }
+}
+
+/**
+ * Extract the revert reason from an ethers call exception
+ */
+function describeRevert(error: unknown): string {
+    if (ethers.isCallException(error)) {
+        return error.reason ?? error.data ?? error.shortMessage;
+    }
+
+    return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Ask the system for a free local port
+ */
+function findFreePort(): Promise<number> {
+    return new Promise((resolve, reject) => {
+        const server = net.createServer();
+        server.once('error', reject);
+        server.listen(0, '127.0.0.1', () => {
+            const { port } = server.address() as net.AddressInfo;
+            server.close(() => resolve(port));
+        });
+    });
+}
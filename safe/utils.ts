@@ -1,6 +1,7 @@
 import { ethers } from 'ethers';
 import * as fs from 'fs';
 import * as path from 'path';
+import { findChainByRpcUrl } from './chains';
 
 /**
  * Convert hex string to decimal string
@@ -40,24 +41,12 @@ export async function getChainIdFromRpc(rpcUrl: string): Promise<string> {
     } catch (error) {
         process.stderr.write(`Failed to fetch chain ID from RPC: ${String(error)}\n`);
 
-        // Fallback to hardcoded mapping as a last resort
-        process.stdout.write('Falling back to hardcoded chain ID mapping...\n');
-        const chainMappings: Record<string, string> = {
-            sepolia: '11155111',
-            'arbitrum-sepolia': '421614',
-            ethereum: '1',
-            arbitrum: '42161',
-            localhost: '31337',
-            '127.0.0.1': '31337',
-            hardhat: '31337',
-        };
-
-        const url = rpcUrl.toLowerCase();
-        for (const [network, chainId] of Object.entries(chainMappings)) {
-            if (url.includes(network)) {
-                process.stdout.write(`Using fallback chain ID: ${chainId}\n`);
-                return chainId;
-            }
+        // Fall back to the RPC URL hints of the chain registry as a last resort
+        process.stdout.write('Falling back to the chain registry RPC URL hints...\n');
+        const chain = findChainByRpcUrl(rpcUrl);
+        if (chain) {
+            process.stdout.write(`Using fallback chain ID: ${chain.chainId} (${chain.name})\n`);
+            return chain.chainId;
         }
 
         // Default to Sepolia if cannot determine
@@ -83,6 +72,18 @@ export function parseEnvironmentVariables(envVars: string): Record<string, strin
     return result;
 }
 
+/**
+ * Parse a list of Safe transaction hashes separated by commas, whitespace, or given as a JSON array
+ */
+export function parseSafeTxHashes(input: string): string[] {
+    const trimmed = input.trim();
+    if (trimmed.startsWith('[')) {
+        return (JSON.parse(trimmed) as string[]).map((hash) => hash.trim()).filter(Boolean);
+    }
+
+    return trimmed.split(/[\s,]+/).filter(Boolean);
+}
+
 /**
  * Interface for transaction data
  */
@@ -109,6 +110,23 @@ Transaction ${index + 1}/${total}:
    Operation: ${tx.operation || 'call'}`;
 }
 
+/**
+ * Check whether two transactions perform the same call (to, value, data, operation)
+ */
+export function isSameTransaction(
+    a: { to: string; value: string; data?: string | null; operation?: number },
+    b: { to: string; value: string; data?: string | null; operation?: number },
+): boolean {
+    const normalizeData = (data?: string | null): string => (data || '0x').toLowerCase();
+
+    return (
+        a.to.toLowerCase() === b.to.toLowerCase() &&
+        BigInt(a.value || '0') === BigInt(b.value || '0') &&
+        normalizeData(a.data) === normalizeData(b.data) &&
+        (a.operation ?? 0) === (b.operation ?? 0)
+    );
+}
+
 /**
  * Format Safe transaction hash for display
  */
@@ -243,6 +261,21 @@ export function getBroadcastFilePath(scriptName: string, chainId: string): strin
     return path.join(process.cwd(), 'broadcast', `${scriptName}.s.sol`, chainId, 'run-latest.json');
 }
 
+/**
+ * Get the broadcast file path written by `forge script --multi`
+ *
+ * Foundry names the directory after the script file (`<script>.s.sol-latest`), older
+ * layouts use the bare script name (`<script>-latest`).
+ */
+export function getMultiChainBroadcastFilePath(scriptName: string): string {
+    const multiDir = path.join(process.cwd(), 'broadcast', 'multi');
+    const candidates = [`${scriptName}.s.sol-latest`, `${scriptName}-latest`].map((dir) =>
+        path.join(multiDir, dir, 'run.json'),
+    );
+
+    return candidates.find((candidate) => fs.existsSync(candidate)) || candidates[0];
+}
+
 /**
  * Create delay between operations
  */
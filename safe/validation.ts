@@ -1,6 +1,7 @@
 import { ethers } from 'ethers';
 import fs from 'fs';
 import path from 'path';
+import { getChain, getKnownChains } from './chains';
 import { ErrorCode, ValidationError } from './errors';
 
 /**
@@ -94,6 +95,26 @@ export class Validator {
         }
     }
 
+    /**
+     * Validate an HTTP(S) service URL, such as the Safe Transaction Service
+     */
+    static validateServiceUrl(serviceUrl: string, fieldName: string = 'service URL'): void {
+        let protocol: string | undefined;
+        try {
+            protocol = new URL(serviceUrl).protocol;
+        } catch {
+            // Reported below
+        }
+
+        if (protocol !== 'http:' && protocol !== 'https:') {
+            throw new ValidationError(
+                `Invalid ${fieldName}: ${serviceUrl}. Must be an http or https URL`,
+                ErrorCode.INVALID_CONFIGURATION,
+                { field: fieldName, value: serviceUrl },
+            );
+        }
+    }
+
     /**
      * Validate chain ID
      */
@@ -114,10 +135,10 @@ export class Validator {
             );
         }
 
-        // Validate against known chain IDs
-        const knownChainIds = [1, 11155111, 42161, 421614, 31337, 1337];
-        if (!knownChainIds.includes(numericChainId)) {
+        // Validate against the chain registry
+        if (!getChain(numericChainId)) {
             // This is a warning, not an error
+            const knownChainIds = getKnownChains().map((chain) => chain.chainId);
             process.stderr.write(
                 `Warning: Chain ID ${numericChainId} is not in the list of known networks. ` +
                     `Known chains: ${knownChainIds.join(', ')}\n`,
@@ -269,7 +290,9 @@ export class Validator {
         envVars: Record<string, unknown>,
         errors: string[],
     ): void {
-        const required = ['RPC_URL', 'SAFE_ADDRESS', 'SAFE_API_KEY', 'PROPOSER_PRIVATE_KEY'];
+        // The proposer signer has several backends and is checked when it is loaded, and
+        // SAFE_API_KEY is only needed for the hosted Transaction Service
+        const required = ['RPC_URL', 'SAFE_ADDRESS'];
 
         for (const envVar of required) {
             if (!envVars[envVar]) {
@@ -303,6 +326,13 @@ export class Validator {
             errors,
         );
 
+        this.validateEnvVarFormat(
+            envVars,
+            'SAFE_TX_SERVICE_URL',
+            (value) => this.validateServiceUrl(value as string, 'SAFE_TX_SERVICE_URL'),
+            errors,
+        );
+
         this.validateEnvVarFormat(
             envVars,
             'CHAIN_ID',
@@ -0,0 +1,143 @@
+#!/usr/bin/env ts-node
+
+import { getExplorerTransactionUrl } from './chains';
+import { validateEnvironment } from './config';
+import {
+    createOutput,
+    OutputOptions,
+    parseOutputOptions,
+    reserveStdoutForJson,
+    writeOutput,
+} from './json-output';
+import { ExecutionResult, SafeManager, WaitForExecutionOptions } from './safe-manager';
+import { parseSafeTxHashes } from './utils';
+import { Validator } from './validation';
+
+interface WaitArgs {
+    safeTxHashes: string[];
+    options: WaitForExecutionOptions;
+    output: OutputOptions;
+}
+
+const OPTIONS = new Map<string, keyof WaitForExecutionOptions>([
+    ['--timeout', 'timeoutMs'],
+    ['--interval', 'pollIntervalMs'],
+    ['--max-interval', 'maxPollIntervalMs'],
+]);
+
+function parseCommandLineArgs(): WaitArgs {
+    const { args, output } = parseOutputOptions(process.argv.slice(2));
+
+    if (args.length === 0 || args.includes('--help')) {
+        showHelpAndExit(args.length === 0 ? 1 : 0);
+    }
+
+    const targets: string[] = [];
+    const options: WaitForExecutionOptions = {};
+    for (let i = 0; i < args.length; i++) {
+        const option = OPTIONS.get(args[i]);
+        if (option && /^\d+$/.test(args[i + 1] ?? '')) {
+            options[option] = Number(args[++i]) * 1000;
+        } else if (args[i].startsWith('--')) {
+            console.error(`Unknown or incomplete argument: ${args[i]}`);
+            process.exit(1);
+        } else {
+            targets.push(args[i]);
+        }
+    }
+
+    const safeTxHashes = parseSafeTxHashes(targets.join(' '));
+    if (safeTxHashes.length === 0) {
+        console.error('Missing safeTxHash');
+        process.exit(1);
+    }
+    safeTxHashes.forEach((hash) => Validator.validateHexString(hash, 'safeTxHash', 64));
+
+    return { safeTxHashes, options, output };
+}
+
+function showHelpAndExit(exitCode: number): void {
+    console.log(`
+Usage: npm run wait-for-execution -- <safeTxHash> [<safeTxHash> ...] [options]
+
+Waits until Safe transactions are executed on-chain, by any account, polling the Safe
+Transaction Service with an exponential backoff. Exits with status 1 on timeout, when an
+execution reverted, or when another transaction used the nonce of a pending one.
+
+Options:
+  --timeout <seconds>        Give up after this long (default: 1800)
+  --interval <seconds>       Delay before the second poll, doubled after each poll (default: 5)
+  --max-interval <seconds>   Upper bound of the delay between polls (default: 60)
+  --json                     Print the executions as a JSON document on stdout, and everything
+                             else on stderr
+  --output <file>            Also write the JSON document to a file
+
+Examples:
+  npm run wait-for-execution -- 0xabc...
+  npm run wait-for-execution -- 0xabc... 0xdef... --timeout 3600
+  npm run wait-for-execution -- 0xabc... --json
+        `);
+    process.exit(exitCode);
+}
+
+function displayExecution(result: ExecutionResult, chainId: string): void {
+    const explorerUrl = getExplorerTransactionUrl(chainId, result.transactionHash);
+
+    console.log(`Safe Tx Hash: ${result.safeTxHash}`);
+    console.log(`   Nonce: ${result.nonce}`);
+    console.log(`   On-chain Tx Hash: ${result.transactionHash}`);
+    if (explorerUrl) {
+        console.log(`   ${explorerUrl}`);
+    }
+    console.log(`   Executor: ${result.executor}`);
+    console.log(`   Block: ${result.blockNumber ?? 'N/A'}`);
+    console.log(`   Status: ${result.status}`);
+    console.log('');
+}
+
+async function main(): Promise<void> {
+    try {
+        const parsedArgs = parseCommandLineArgs();
+        const { output } = parsedArgs;
+
+        if (output.json) {
+            reserveStdoutForJson();
+        }
+
+        await validateEnvironment();
+
+        const safeManager = await SafeManager.create({ simulate: false });
+
+        console.log(`Waiting for ${parsedArgs.safeTxHashes.length} transaction(s)...`);
+        console.log('');
+
+        const results = await safeManager.waitForExecution(
+            parsedArgs.safeTxHashes,
+            parsedArgs.options,
+        );
+
+        if (output.json || output.outputFile) {
+            const document = createOutput('executions', {
+                chainId: safeManager.getChainId(),
+                safeAddress: safeManager.getSafeAddress(),
+                executions: results,
+            });
+            writeOutput(document, output);
+        }
+        if (!output.json) {
+            results.forEach((result) => displayExecution(result, safeManager.getChainId()));
+        }
+
+        if (results.some((result) => result.status === 'reverted')) {
+            console.error('An execution reverted on-chain.');
+            process.exit(1);
+        }
+    } catch (error) {
+        console.error('Error waiting for execution:', error);
+        process.exit(1);
+    }
+}
+
+if (require.main === module) {
+    void main();
+}
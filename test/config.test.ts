@@ -0,0 +1,67 @@
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { after, afterEach, before, test } from 'node:test';
+import { resolveSetting, selectNetwork, setExplicitSettings } from '../safe/config';
+
+const NETWORK_RPC_URL = 'http://network.example.com';
+const VARIABLES = ['RPC_URL', 'RPC_URL_31337', 'RPC_URL_1', 'SAFE_CONFIG_FILE'];
+
+let configDir: string;
+
+before(() => {
+    VARIABLES.forEach((name) => delete process.env[name]);
+    configDir = fs.mkdtempSync(path.join(os.tmpdir(), 'safe-config-'));
+    process.env.SAFE_CONFIG_FILE = path.join(configDir, 'safe.config.json');
+    fs.writeFileSync(
+        process.env.SAFE_CONFIG_FILE,
+        JSON.stringify({
+            networks: {
+                local: {
+                    chainId: 31337,
+                    rpcUrl: NETWORK_RPC_URL,
+                    safeAddress: '0x1111111111111111111111111111111111111111',
+                },
+            },
+        }),
+    );
+    selectNetwork('local');
+});
+
+afterEach(() => {
+    setExplicitSettings({});
+    ['RPC_URL', 'RPC_URL_31337', 'RPC_URL_1'].forEach((name) => delete process.env[name]);
+});
+
+after(() => {
+    fs.rmSync(configDir, { recursive: true, force: true });
+});
+
+test('the network value applies when nothing else is set', () => {
+    assert.equal(resolveSetting('rpcUrl', '31337'), NETWORK_RPC_URL);
+});
+
+test('the environment takes precedence over the network', () => {
+    process.env.RPC_URL = 'http://plain.example.com';
+    assert.equal(resolveSetting('rpcUrl', '31337'), 'http://plain.example.com');
+
+    process.env.RPC_URL_31337 = 'http://suffixed.example.com';
+    assert.equal(resolveSetting('rpcUrl', '31337'), 'http://suffixed.example.com');
+});
+
+test('an explicit flag or input takes precedence over the environment and the network', () => {
+    process.env.RPC_URL = 'http://plain.example.com';
+    process.env.RPC_URL_31337 = 'http://suffixed.example.com';
+    setExplicitSettings({ rpcUrl: 'http://explicit.example.com' });
+
+    assert.equal(resolveSetting('rpcUrl', '31337'), 'http://explicit.example.com');
+    assert.equal(resolveSetting('rpcUrl'), 'http://explicit.example.com');
+});
+
+test('other chains of a multi-chain run ignore the explicit settings', () => {
+    process.env.RPC_URL_1 = 'http://mainnet.example.com';
+    setExplicitSettings({ rpcUrl: 'http://explicit.example.com' });
+
+    assert.equal(resolveSetting('rpcUrl', '1'), 'http://mainnet.example.com');
+});
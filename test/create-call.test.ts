@@ -0,0 +1,100 @@
+import { ethers } from 'ethers';
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { CREATE_CALL_ABI, encodeDeployment } from '../safe/create-call';
+import { ErrorCode } from '../safe/errors';
+
+const SAFE_ADDRESS = '0x1111111111111111111111111111111111111111';
+// Foundry's default CREATE2 factory
+const DETERMINISTIC_DEPLOYER = '0x4e59b44847b379578588920cA78FbF26c0B4956C';
+const INIT_CODE = '0x6080604052348015600f57600080fd5b50603f80601d6000396000f3fe';
+const SALT = ethers.zeroPadValue('0x2a', 32);
+
+test('a CREATE deployment is a CreateCall call predicted from the Safe account nonce', () => {
+    const contractAddress = ethers.getCreateAddress({ from: SAFE_ADDRESS, nonce: 3 });
+    const deployment = encodeDeployment(
+        {
+            transactionType: 'CREATE',
+            contractName: 'Counter',
+            contractAddress,
+            transaction: { value: '0x64', input: INIT_CODE },
+        },
+        SAFE_ADDRESS,
+        3,
+    );
+
+    assert.equal(deployment.factory, undefined);
+    assert.equal(deployment.predictedAddress, contractAddress);
+    assert.equal(deployment.value, '100');
+    const [value, initCode] = new ethers.Interface(CREATE_CALL_ABI).decodeFunctionData(
+        'performCreate',
+        deployment.data,
+    );
+    assert.equal(value, 100n);
+    assert.equal(initCode, INIT_CODE);
+});
+
+test('a CREATE deployment from another account nonce is rejected', () => {
+    assert.throws(
+        () =>
+            encodeDeployment(
+                {
+                    transactionType: 'CREATE',
+                    contractName: 'Counter',
+                    contractAddress: ethers.getCreateAddress({ from: SAFE_ADDRESS, nonce: 4 }),
+                    transaction: { input: INIT_CODE },
+                },
+                SAFE_ADDRESS,
+                3,
+            ),
+        { code: ErrorCode.UNSUPPORTED_DEPLOYMENT },
+    );
+});
+
+test('a CREATE2 deployment is the same call to the same factory', () => {
+    const input = ethers.concat([SALT, INIT_CODE]);
+    const contractAddress = ethers.getCreate2Address(
+        DETERMINISTIC_DEPLOYER,
+        SALT,
+        ethers.keccak256(INIT_CODE),
+    );
+    const deployment = encodeDeployment(
+        {
+            transactionType: 'CREATE2',
+            contractName: 'Counter',
+            contractAddress,
+            transaction: { to: DETERMINISTIC_DEPLOYER, value: '0x0', input },
+        },
+        SAFE_ADDRESS,
+        0,
+    );
+
+    assert.equal(deployment.factory, DETERMINISTIC_DEPLOYER);
+    assert.equal(deployment.data, input);
+    assert.equal(deployment.value, '0');
+    assert.equal(deployment.predictedAddress, contractAddress);
+});
+
+test('a CREATE2 deployment whose address the factory would not produce is rejected', () => {
+    assert.throws(
+        () =>
+            encodeDeployment(
+                {
+                    transactionType: 'CREATE2',
+                    contractName: 'Counter',
+                    contractAddress: ethers.getCreate2Address(
+                        SAFE_ADDRESS,
+                        SALT,
+                        ethers.keccak256(INIT_CODE),
+                    ),
+                    transaction: {
+                        to: DETERMINISTIC_DEPLOYER,
+                        input: ethers.concat([SALT, INIT_CODE]),
+                    },
+                },
+                SAFE_ADDRESS,
+                0,
+            ),
+        { code: ErrorCode.UNSUPPORTED_DEPLOYMENT },
+    );
+});
@@ -0,0 +1,27 @@
+import { spawn } from 'node:child_process';
+import * as path from 'node:path';
+
+export const ROOT = path.resolve(__dirname, '..');
+
+export interface CliResult {
+    code: number | null;
+    stdout: string;
+    stderr: string;
+}
+
+/**
+ * Run a CLI of the repository with ts-node, with only the given environment
+ */
+export function runCli(script: string, args: string[], env: NodeJS.ProcessEnv): Promise<CliResult> {
+    return new Promise((resolve) => {
+        const child = spawn(process.execPath, ['-r', 'ts-node/register', script, ...args], {
+            cwd: ROOT,
+            env: { PATH: process.env.PATH, ...env },
+        });
+        let stdout = '';
+        let stderr = '';
+        child.stdout.on('data', (chunk: Buffer) => (stdout += chunk.toString()));
+        child.stderr.on('data', (chunk: Buffer) => (stderr += chunk.toString()));
+        child.on('close', (code) => resolve({ code, stdout, stderr }));
+    });
+}
@@ -0,0 +1,81 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import {
+    buildFilter,
+    collectTransactions,
+    ListingFilters,
+    TransactionResult,
+} from '../safe/list-pending';
+
+const TOKEN = '0x1111111111111111111111111111111111111111';
+const OTHER = '0x2222222222222222222222222222222222222222';
+
+// Transactions as read from the service, newest first: one a day, alternating targets
+function transactions(count: number): TransactionResult[] {
+    return Array.from({ length: count }, (_, index) => ({
+        safeTxHash: `0x${index.toString(16).padStart(64, '0')}`,
+        nonce: 100 - index,
+        to: index % 2 === 0 ? TOKEN : OTHER,
+        isExecuted: index % 3 === 0,
+        submissionDate: new Date(Date.UTC(2024, 0, 31 - index)).toISOString(),
+    }));
+}
+
+async function* iterate(items: TransactionResult[]): AsyncIterable<TransactionResult> {
+    yield* items;
+}
+
+test('filters combine on nonce range, target, dates and execution status', async () => {
+    const items = transactions(12);
+    const nonces = async (filters: ListingFilters): Promise<unknown[]> => {
+        const matches = await buildFilter(filters);
+        return items.filter(matches).map((tx) => tx.nonce);
+    };
+
+    assert.deepEqual(await nonces({ nonceFrom: 95, nonceTo: 97 }), [97, 96, 95]);
+    assert.deepEqual(await nonces({ nonceFrom: 95, to: OTHER }), [99, 97, 95]);
+    assert.deepEqual(
+        await nonces({
+            since: new Date(Date.UTC(2024, 0, 25)),
+            until: new Date(Date.UTC(2024, 0, 28)),
+        }),
+        [97, 96, 95, 94],
+    );
+    assert.deepEqual(await nonces({ executed: true }), [100, 97, 94, 91]);
+    assert.deepEqual(
+        await nonces({}),
+        items.map((tx) => tx.nonce),
+    );
+});
+
+test('the listing stops at the limit and returns the offset of the next match', async () => {
+    const matches = await buildFilter({ to: TOKEN });
+
+    const first = await collectTransactions(iterate(transactions(10)), matches, { limit: 2 });
+    assert.deepEqual(
+        first.transactions.map((tx) => tx.nonce),
+        [100, 98],
+    );
+    // Transactions 0-3 were read; the next match is transaction 4
+    assert.equal(first.nextOffset, 4);
+
+    const next = await collectTransactions(iterate(transactions(10).slice(4)), matches, {
+        limit: 2,
+        offset: 4,
+    });
+    assert.deepEqual(
+        next.transactions.map((tx) => tx.nonce),
+        [96, 94],
+    );
+    assert.equal(next.nextOffset, 8);
+
+    const last = await collectTransactions(iterate(transactions(10).slice(8)), matches, {
+        limit: 2,
+        offset: 8,
+    });
+    assert.deepEqual(
+        last.transactions.map((tx) => tx.nonce),
+        [92],
+    );
+    assert.equal(last.nextOffset, null);
+});
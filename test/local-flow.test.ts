@@ -0,0 +1,73 @@
+import assert from 'node:assert/strict';
+import { spawnSync } from 'node:child_process';
+import * as os from 'node:os';
+import { after, before, test } from 'node:test';
+import { SafeManager } from '../safe';
+import { LocalSafeEnvironment, startLocalSafeEnvironment } from '../testing';
+import { runCli } from './helpers';
+
+// Chain forked by Anvil; it must have the canonical Safe deployments
+const FORK_URL = process.env.FORK_URL;
+const FORK_BLOCK_NUMBER = process.env.FORK_BLOCK_NUMBER;
+const hasAnvil = spawnSync('anvil', ['--version']).status === 0;
+// CI sets REQUIRE_LOCAL_FLOW so a missing anvil or FORK_URL fails instead of skipping
+const required = process.env.REQUIRE_LOCAL_FLOW === '1';
+const skip = !required && (!hasAnvil || !FORK_URL) ? 'requires anvil and FORK_URL' : false;
+
+let environment: LocalSafeEnvironment | undefined;
+
+before(async () => {
+    if (skip) {
+        return;
+    }
+
+    environment = await startLocalSafeEnvironment({
+        forkUrl: FORK_URL as string,
+        forkBlockNumber: FORK_BLOCK_NUMBER ? Number(FORK_BLOCK_NUMBER) : undefined,
+        threshold: 2,
+        anvilPort: 18545,
+    });
+    process.env.RPC_URL = environment.rpcUrl;
+    process.env.SAFE_ADDRESS = environment.safeAddress;
+    process.env.PROPOSER_PRIVATE_KEY = environment.ownerKeys[0];
+});
+
+after(async () => {
+    await environment?.stop();
+});
+
+test(
+    'a transaction is proposed, confirmed and executed against the local service',
+    { skip },
+    async () => {
+        const { rpcUrl, safeAddress, txServiceUrl, ownerKeys } =
+            environment as LocalSafeEnvironment;
+        const safeManager = await SafeManager.create({ txServiceUrl, simulate: false });
+
+        try {
+            const safeTxHash = await safeManager.proposeTransaction({
+                to: safeAddress,
+                value: '0',
+                data: '0x',
+            });
+
+            // The second owner confirms through the CLI, as a co-signer would
+            const confirmation = await runCli('safe/confirm-tx.ts', [safeTxHash], {
+                HOME: os.tmpdir(),
+                RPC_URL: rpcUrl,
+                SAFE_ADDRESS: safeAddress,
+                SAFE_TX_SERVICE_URL: txServiceUrl,
+                PROPOSER_PRIVATE_KEY: ownerKeys[1],
+            });
+            assert.equal(confirmation.code, 0, confirmation.stderr);
+
+            const transaction = await safeManager.getTransaction(safeTxHash);
+            assert.equal(transaction.confirmations?.length, 2);
+
+            const execution = await safeManager.executeTransaction(safeTxHash);
+            assert.equal(execution.status, 'success');
+        } finally {
+            safeManager.dispose();
+        }
+    },
+);
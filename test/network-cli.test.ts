@@ -0,0 +1,136 @@
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as http from 'node:http';
+import { AddressInfo } from 'node:net';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { after, before, test } from 'node:test';
+import { runCli } from './helpers';
+
+const SAFE_ADDRESS = '0x1111111111111111111111111111111111111111';
+// Well-known first Anvil account, never used on a live chain
+const PROPOSER_PRIVATE_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+
+let server: http.Server;
+let configFile: string;
+
+/**
+ * Answers `eth_chainId` as an Anvil node, and every Safe Transaction Service request with an
+ * empty listing
+ */
+function handleRequest(request: http.IncomingMessage, response: http.ServerResponse): void {
+    let body = '';
+    request.on('data', (chunk: Buffer) => (body += chunk.toString()));
+    request.on('end', () => {
+        response.setHeader('Content-Type', 'application/json');
+        if (request.method !== 'POST' || request.url !== '/rpc') {
+            response.end(
+                JSON.stringify({ count: 0, next: null, previous: null, results: [], nonce: '0' }),
+            );
+            return;
+        }
+
+        const { id, method } = JSON.parse(body) as { id: number; method: string };
+        const result =
+            method === 'eth_chainId' ? '0x7a69' : method === 'net_version' ? '31337' : null;
+        response.end(JSON.stringify({ jsonrpc: '2.0', id, result }));
+    });
+}
+
+before(async () => {
+    server = http.createServer(handleRequest);
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    configFile = path.join(
+        fs.mkdtempSync(path.join(os.tmpdir(), 'safe-network-')),
+        'safe.config.json',
+    );
+    fs.writeFileSync(
+        configFile,
+        JSON.stringify({
+            networks: {
+                local: {
+                    chainId: 31337,
+                    rpcUrl: `http://127.0.0.1:${port}/rpc`,
+                    safeAddress: SAFE_ADDRESS,
+                    txServiceUrl: `http://127.0.0.1:${port}/api`,
+                },
+            },
+        }),
+    );
+});
+
+after(() => {
+    server.close();
+    fs.rmSync(path.dirname(configFile), { recursive: true, force: true });
+});
+
+test('list-pending runs from --network without RPC_URL or SAFE_ADDRESS in the environment', async () => {
+    // Only what a CI runner without any Safe setting would have
+    const { code, stdout, stderr } = await runCli(
+        'safe/list-pending.ts',
+        ['--network', 'local', '--json'],
+        { HOME: os.tmpdir(), SAFE_CONFIG_FILE: configFile, PROPOSER_PRIVATE_KEY },
+    );
+
+    assert.equal(code, 0, stderr);
+    const listing = JSON.parse(stdout) as {
+        kind: string;
+        chainId: string;
+        safeAddress: string;
+        count: number;
+    };
+    assert.equal(listing.kind, 'listing');
+    assert.equal(listing.chainId, '31337');
+    assert.equal(listing.safeAddress.toLowerCase(), SAFE_ADDRESS);
+    assert.equal(listing.count, 0);
+});
+
+test('SAFE_ADDRESS in the environment takes precedence over the selected network', async () => {
+    const safeAddress = '0x2222222222222222222222222222222222222222';
+    const { code, stdout, stderr } = await runCli(
+        'safe/list-pending.ts',
+        ['--network', 'local', '--json'],
+        {
+            HOME: os.tmpdir(),
+            SAFE_CONFIG_FILE: configFile,
+            PROPOSER_PRIVATE_KEY,
+            SAFE_ADDRESS: safeAddress,
+        },
+    );
+
+    assert.equal(code, 0, stderr);
+    const listing = JSON.parse(stdout) as { safeAddress: string };
+    assert.equal(listing.safeAddress.toLowerCase(), safeAddress);
+});
+
+test('doctor --json prints only the JSON document on stdout', async () => {
+    const { code, stdout } = await runCli('safe/doctor.ts', ['--network', 'local', '--json'], {
+        HOME: os.tmpdir(),
+        SAFE_CONFIG_FILE: configFile,
+        PROPOSER_PRIVATE_KEY,
+    });
+
+    // The fake node has no Safe contract, so some checks fail
+    assert.equal(code, 1);
+    const report = JSON.parse(stdout) as {
+        kind: string;
+        passed: boolean;
+        checks: Array<{ name: string; status: string }>;
+    };
+    assert.equal(report.kind, 'doctor');
+    assert.equal(report.passed, false);
+    assert.ok(report.checks.some((check) => check.status === 'fail'));
+});
+
+test('an invalid safeTxHash is reported as an error with exit code 1', async () => {
+    for (const script of ['confirm-tx', 'execute', 'reject', 'wait-for-execution']) {
+        const { code, stderr } = await runCli(`safe/${script}.ts`, ['0x1234'], {
+            HOME: os.tmpdir(),
+        });
+
+        assert.equal(code, 1, script);
+        assert.match(stderr, /^Error .*Invalid safeTxHash length/m, script);
+    }
+});
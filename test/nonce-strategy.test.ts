@@ -0,0 +1,58 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { ErrorCode } from '../safe/errors';
+import { NonceStrategy, parseNonceStrategy, SafeManager } from '../safe/safe-manager';
+
+const ONCHAIN_NONCE = 5;
+
+/**
+ * A SafeManager reading the on-chain nonce and the queue from stubs instead of the chain and the
+ * Transaction Service
+ */
+function stubSafeManager(nonceStrategy: NonceStrategy, queuedNonces: number[] = []): SafeManager {
+    return Object.assign(Object.create(SafeManager.prototype) as SafeManager, {
+        options: { nonceStrategy },
+        getCurrentNonce: async (): Promise<number> => ONCHAIN_NONCE,
+        async *iteratePendingTransactions(): AsyncIterable<{ nonce: number }> {
+            yield* queuedNonces.map((nonce) => ({ nonce }));
+        },
+    });
+}
+
+test('onchain starts at the Safe nonce, or after the queue the proposals must follow', async () => {
+    const safeManager = stubSafeManager(parseNonceStrategy('onchain'), [5, 6]);
+
+    assert.equal(await safeManager.resolveStartNonce(2), 5);
+    assert.equal(await safeManager.resolveStartNonce(2, 8), 8);
+});
+
+test('append starts after the highest queued nonce, across every pending page', async () => {
+    assert.equal(await stubSafeManager({ mode: 'append' }, [7, 5, 9, 6]).resolveStartNonce(1), 10);
+    assert.equal(await stubSafeManager({ mode: 'append' }).resolveStartNonce(1), 5);
+    assert.equal(await stubSafeManager({ mode: 'append' }, [5]).resolveStartNonce(1, 12), 12);
+});
+
+test('start and replace use the chosen nonce unless it is used or before the queue', async () => {
+    assert.equal(await stubSafeManager(parseNonceStrategy('start', '7')).resolveStartNonce(3), 7);
+    assert.equal(await stubSafeManager(parseNonceStrategy('replace', '5')).resolveStartNonce(1), 5);
+
+    await assert.rejects(stubSafeManager(parseNonceStrategy('start', '4')).resolveStartNonce(1), {
+        code: ErrorCode.NONCE_CONFLICT,
+    });
+    await assert.rejects(
+        stubSafeManager(parseNonceStrategy('start', '6')).resolveStartNonce(1, 8),
+        { code: ErrorCode.NONCE_CONFLICT },
+    );
+    await assert.rejects(stubSafeManager(parseNonceStrategy('replace', '6')).resolveStartNonce(2), {
+        code: ErrorCode.NONCE_CONFLICT,
+    });
+});
+
+test('nonce strategies are validated when parsed', () => {
+    assert.throws(() => parseNonceStrategy('latest'), { code: ErrorCode.INVALID_CONFIGURATION });
+    assert.throws(() => parseNonceStrategy('start'), { code: ErrorCode.INVALID_CONFIGURATION });
+    assert.throws(() => parseNonceStrategy('replace', '-1'), {
+        code: ErrorCode.INVALID_CONFIGURATION,
+    });
+    assert.deepEqual(parseNonceStrategy('append', '3'), { mode: 'append', nonce: undefined });
+});
@@ -0,0 +1,166 @@
+import { ethers } from 'ethers';
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { after, before, test } from 'node:test';
+import { ErrorCode } from '../safe/errors';
+import { enforcePolicy, loadPolicy, resolvePolicyRules } from '../safe/policy';
+
+const TOKEN = '0x1111111111111111111111111111111111111111';
+const MULTISEND = '0x2222222222222222222222222222222222222222';
+const OTHER = '0x3333333333333333333333333333333333333333';
+const TRANSFER = new ethers.Interface(['function transfer(address,uint256)']);
+
+let policyDir: string;
+
+function writePolicy(name: string, content: string): string {
+    const policyPath = path.join(policyDir, name);
+    fs.writeFileSync(policyPath, content);
+    return policyPath;
+}
+
+before(() => {
+    policyDir = fs.mkdtempSync(path.join(os.tmpdir(), 'safe-policy-'));
+});
+
+after(() => {
+    fs.rmSync(policyDir, { recursive: true, force: true });
+});
+
+test('loadPolicy reports every invalid rule of the file', () => {
+    const policyPath = writePolicy(
+        'invalid.json',
+        JSON.stringify({
+            allowedTargets: ['not-an-address'],
+            maxNativeValue: 'lots',
+            unknownRule: true,
+            chains: { mainnet: {}, 1: { allowedSelectors: { [TOKEN]: ['nope('] } } },
+        }),
+    );
+
+    assert.throws(
+        () => loadPolicy(policyPath),
+        (error: { code: ErrorCode; context: { validationErrors: string[] } }) => {
+            assert.equal(error.code, ErrorCode.INVALID_CONFIGURATION);
+            assert.deepEqual(error.context.validationErrors, [
+                'allowedTargets: not-an-address is not an address',
+                'maxNativeValue must be an amount of native currency, such as "1.5"',
+                'unknownRule is not a policy rule',
+                `chains.1.allowedSelectors.${TOKEN}: nope( is not a selector or signature`,
+                'chains.mainnet must be rules keyed by a chain ID',
+            ]);
+            return true;
+        },
+    );
+    assert.throws(() => loadPolicy(writePolicy('list.json', '[]')), {
+        code: ErrorCode.INVALID_CONFIGURATION,
+    });
+    assert.throws(() => loadPolicy(path.join(policyDir, 'missing.json')), {
+        code: ErrorCode.INVALID_CONFIGURATION,
+    });
+});
+
+test('selectors are read from 4-byte hex or function signatures', () => {
+    const policy = loadPolicy(
+        writePolicy(
+            'selectors.yaml',
+            [
+                'allowedSelectors:',
+                `  "${TOKEN}":`,
+                '    - transfer(address,uint256)',
+                '    - "0x095EA7B3"',
+            ].join('\n'),
+        ),
+    );
+
+    assert.deepEqual(policy.allowedSelectors, {
+        [TOKEN]: [TRANSFER.getFunction('transfer')?.selector, '0x095ea7b3'],
+    });
+});
+
+test('a chain entry replaces only the top-level rules it sets', () => {
+    const policy = loadPolicy(
+        writePolicy(
+            'chains.json',
+            JSON.stringify({
+                allowedTargets: [TOKEN],
+                maxNativeValue: '1',
+                chains: { 137: { maxNativeValue: '100' } },
+            }),
+        ),
+    );
+
+    assert.deepEqual(resolvePolicyRules(policy, '137'), {
+        allowedTargets: [TOKEN],
+        allowedSelectors: undefined,
+        maxNativeValue: ethers.parseEther('100'),
+        delegatecallAllowlist: undefined,
+    });
+    assert.equal(resolvePolicyRules(policy, '1').maxNativeValue, ethers.parseEther('1'));
+});
+
+test('delegatecalls are only allowed to targets in delegatecallAllowlist', () => {
+    const policy = loadPolicy(
+        writePolicy('delegatecall.json', JSON.stringify({ delegatecallAllowlist: [MULTISEND] })),
+    );
+
+    assert.doesNotThrow(() =>
+        enforcePolicy(policy, '1', [
+            { to: MULTISEND, value: '0', data: '0x', operation: 'delegatecall' },
+            { to: OTHER, value: '0', data: '0x', operation: 'call' },
+        ]),
+    );
+    assert.throws(
+        () =>
+            enforcePolicy(policy, '1', [
+                { to: OTHER, value: '0', data: '0x', operation: 'delegatecall' },
+            ]),
+        { code: ErrorCode.POLICY_VIOLATION },
+    );
+});
+
+test('enforcePolicy lists every offending call with all of its reasons', () => {
+    const policy = loadPolicy(
+        writePolicy(
+            'violations.json',
+            JSON.stringify({
+                allowedTargets: [TOKEN],
+                allowedSelectors: { [TOKEN]: ['transfer(address,uint256)'] },
+                maxNativeValue: '1',
+            }),
+        ),
+    );
+    const transfer = TRANSFER.encodeFunctionData('transfer', [OTHER, 1]);
+
+    assert.throws(
+        () =>
+            enforcePolicy(policy, '1', [
+                { to: TOKEN, value: '0', data: transfer },
+                { to: TOKEN, value: ethers.parseEther('2').toString(), data: '0x095ea7b3' },
+                { to: OTHER, value: '0', data: '0x', operation: 'delegatecall' },
+            ]),
+        (error: { code: ErrorCode; context: { violations: unknown } }) => {
+            assert.equal(error.code, ErrorCode.POLICY_VIOLATION);
+            assert.deepEqual(error.context.violations, [
+                {
+                    index: 1,
+                    to: TOKEN,
+                    reasons: [
+                        'function 0x095ea7b3 is not in allowedSelectors of this target',
+                        'value 2.0 exceeds maxNativeValue 1.0',
+                    ],
+                },
+                {
+                    index: 2,
+                    to: OTHER,
+                    reasons: [
+                        'target is not in allowedTargets',
+                        'delegatecall to a target not in delegatecallAllowlist',
+                    ],
+                },
+            ]);
+            return true;
+        },
+    );
+});
@@ -0,0 +1,146 @@
+import { ethers } from 'ethers';
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { test } from 'node:test';
+import { ErrorCode } from '../safe/errors';
+import {
+    BUNDLE_VERSION,
+    hashBundle,
+    mergeBundles,
+    recoverBundleSigner,
+    SafeTransactionBundle,
+    signBundle,
+    verifyBundleHash,
+    writeBundle,
+} from '../safe/transaction-bundle';
+import { runCli } from './helpers';
+
+const SAFE_ADDRESS = '0x1111111111111111111111111111111111111111';
+const OWNERS = [ethers.Wallet.createRandom(), ethers.Wallet.createRandom()];
+
+function buildBundle(
+    domain: SafeTransactionBundle['domain'] = {
+        chainId: '11155111',
+        verifyingContract: SAFE_ADDRESS,
+    },
+): SafeTransactionBundle {
+    const bundle: SafeTransactionBundle = {
+        version: BUNDLE_VERSION,
+        safeAddress: SAFE_ADDRESS,
+        chainId: '11155111',
+        safeVersion: '1.4.1',
+        safeTxHash: '',
+        nonce: 7,
+        domain,
+        types: {
+            SafeTx: [
+                { type: 'address', name: 'to' },
+                { type: 'uint256', name: 'value' },
+                { type: 'bytes', name: 'data' },
+                { type: 'uint8', name: 'operation' },
+                { type: 'uint256', name: 'safeTxGas' },
+                { type: 'uint256', name: 'baseGas' },
+                { type: 'uint256', name: 'gasPrice' },
+                { type: 'address', name: 'gasToken' },
+                { type: 'address', name: 'refundReceiver' },
+                { type: 'uint256', name: 'nonce' },
+            ],
+        },
+        primaryType: 'SafeTx',
+        message: {
+            to: '0x2222222222222222222222222222222222222222',
+            value: '0',
+            data: '0x',
+            operation: 0,
+            safeTxGas: '0',
+            baseGas: '0',
+            gasPrice: '0',
+            gasToken: ethers.ZeroAddress,
+            refundReceiver: ethers.ZeroAddress,
+            nonce: 7,
+        },
+        signatures: [],
+    };
+    return { ...bundle, safeTxHash: hashBundle(bundle) };
+}
+
+test('signatures of a bundle recover to their signers and merge by signer', async () => {
+    const bundle = buildBundle();
+    verifyBundleHash(bundle);
+
+    const signed = await Promise.all(OWNERS.map((owner) => signBundle(bundle, owner)));
+    signed.forEach((copy, index) => {
+        const [signature] = copy.signatures;
+        assert.equal(signature.signer, OWNERS[index].address);
+        assert.equal(recoverBundleSigner(copy, signature.data), OWNERS[index].address);
+    });
+
+    const merged = mergeBundles([...signed, signed[0]]);
+    assert.deepEqual(
+        merged.signatures.map((signature) => signature.signer).sort(),
+        OWNERS.map((owner) => owner.address).sort(),
+    );
+});
+
+test('a bundle whose message was changed after hashing is rejected', async () => {
+    const bundle = buildBundle();
+    const tampered = { ...bundle, message: { ...bundle.message, value: '1' } };
+
+    assert.throws(() => verifyBundleHash(tampered), { code: ErrorCode.SAFE_TX_HASH_MISMATCH });
+    await assert.rejects(signBundle(tampered, OWNERS[0]), {
+        code: ErrorCode.SAFE_TX_HASH_MISMATCH,
+    });
+});
+
+test('a bundle whose domain is another Safe or chain than it shows is rejected', async () => {
+    const otherSafe = buildBundle({
+        chainId: '11155111',
+        verifyingContract: '0x3333333333333333333333333333333333333333',
+    });
+    const otherChain = buildBundle({ chainId: '1', verifyingContract: SAFE_ADDRESS });
+
+    for (const bundle of [otherSafe, otherChain]) {
+        assert.throws(() => verifyBundleHash(bundle), {
+            code: ErrorCode.INVALID_TRANSACTION_BUNDLE,
+        });
+        await assert.rejects(signBundle(bundle, OWNERS[0]), {
+            code: ErrorCode.INVALID_TRANSACTION_BUNDLE,
+        });
+    }
+});
+
+test('offline-sign writes the bundle to --bundle-out and its JSON document to --output', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'safe-bundle-'));
+    const bundlePath = path.join(dir, 'tx.json');
+    writeBundle(bundlePath, buildBundle());
+
+    try {
+        const { code, stderr } = await runCli(
+            'safe/offline-sign.ts',
+            [
+                'sign',
+                bundlePath,
+                '--bundle-out',
+                path.join(dir, 'tx-signed.json'),
+                '--output',
+                path.join(dir, 'summary.json'),
+            ],
+            { HOME: os.tmpdir(), SIGNER_PRIVATE_KEY: OWNERS[0].privateKey },
+        );
+        assert.equal(code, 0, stderr);
+
+        const signed = JSON.parse(fs.readFileSync(path.join(dir, 'tx-signed.json'), 'utf8'));
+        assert.deepEqual(
+            signed.signatures.map((signature: { signer: string }) => signature.signer),
+            [OWNERS[0].address],
+        );
+        const summary = JSON.parse(fs.readFileSync(path.join(dir, 'summary.json'), 'utf8'));
+        assert.equal(summary.kind, 'bundle');
+        assert.equal(summary.bundleFile, path.join(dir, 'tx-signed.json'));
+        assert.equal(JSON.parse(fs.readFileSync(bundlePath, 'utf8')).signatures.length, 0);
+    } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+    }
+});
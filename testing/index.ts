@@ -0,0 +1,17 @@
+/**
+ * Local stand-ins for the Safe Transaction Service and a Safe, for tests and local runs.
+ * Not part of the shipped `safe` API.
+ */
+
+export {
+    ANVIL_MNEMONIC,
+    deployAnvilSafe,
+    startLocalSafeEnvironment,
+} from './local-safe-environment';
+export type {
+    AnvilSafeConfig,
+    LocalSafeEnvironment,
+    LocalSafeEnvironmentOptions,
+} from './local-safe-environment';
+export { MockTransactionService } from './mock-tx-service';
+export type { MockTransactionServiceOptions } from './mock-tx-service';
@@ -0,0 +1,130 @@
+import Safe from '@safe-global/protocol-kit';
+import { ethers } from 'ethers';
+import { AnvilManager } from '../safe/anvil-manager';
+import { logger } from '../safe/logger';
+import { MockTransactionService } from './mock-tx-service';
+
+/** Mnemonic of Anvil's default dev accounts */
+export const ANVIL_MNEMONIC = 'test test test test test test test test test test test junk';
+
+export interface AnvilSafeConfig {
+    owners: string[];
+    threshold: number;
+    /** Funded key sending the deployment transaction */
+    deployerKey: string;
+    saltNonce?: string;
+}
+
+/**
+ * Deploy a Safe through the canonical proxy factory of a forked chain
+ */
+export async function deployAnvilSafe(rpcUrl: string, config: AnvilSafeConfig): Promise<string> {
+    const protocolKit = await Safe.init({
+        provider: rpcUrl,
+        signer: config.deployerKey,
+        predictedSafe: {
+            safeAccountConfig: { owners: config.owners, threshold: config.threshold },
+            safeDeploymentConfig: { saltNonce: config.saltNonce ?? Date.now().toString() },
+        },
+    });
+
+    const deployment = await protocolKit.createSafeDeploymentTransaction();
+    const provider = new ethers.JsonRpcProvider(rpcUrl);
+    try {
+        const deployer = new ethers.Wallet(config.deployerKey, provider);
+        const tx = await deployer.sendTransaction({
+            to: deployment.to,
+            value: deployment.value,
+            data: deployment.data,
+        });
+        await tx.wait();
+    } finally {
+        provider.destroy();
+    }
+
+    const safeAddress = await protocolKit.getAddress();
+    logger.info('Safe deployed on Anvil', {
+        safeAddress,
+        owners: config.owners,
+        threshold: config.threshold,
+    });
+    return safeAddress;
+}
+
+export interface LocalSafeEnvironmentOptions {
+    /** Chain to fork; it must have the canonical Safe deployments */
+    forkUrl: string;
+    /** Block to fork at, so runs are reproducible (default: latest) */
+    forkBlockNumber?: number;
+    /** Number of Anvil dev accounts owning the Safe (default: 3) */
+    owners?: number;
+    /** Signatures required (default: 2) */
+    threshold?: number;
+    anvilPort?: number;
+    servicePort?: number;
+}
+
+export interface LocalSafeEnvironment {
+    rpcUrl: string;
+    safeAddress: string;
+    txServiceUrl: string;
+    /** Private keys of the Safe owners, in owner order */
+    ownerKeys: string[];
+    service: MockTransactionService;
+    stop(): Promise<void>;
+}
+
+/**
+ * Start an Anvil fork with a fresh Safe owned by Anvil dev accounts, plus a mock Transaction
+ * Service in front of it
+ *
+ * Pass `txServiceUrl` to `SafeManager.create` (and point RPC_URL / SAFE_ADDRESS at the
+ * environment) to run the propose → confirm → execute flow without the hosted service.
+ */
+export async function startLocalSafeEnvironment(
+    options: LocalSafeEnvironmentOptions,
+): Promise<LocalSafeEnvironment> {
+    const ownerCount = options.owners ?? 3;
+    const ownerKeys = Array.from(
+        { length: ownerCount },
+        (_, index) =>
+            ethers.HDNodeWallet.fromPhrase(ANVIL_MNEMONIC, undefined, `m/44'/60'/0'/0/${index}`)
+                .privateKey,
+    );
+
+    const anvilManager = new AnvilManager();
+    const port = options.anvilPort ?? 8545;
+    await anvilManager.startFork({
+        forkUrl: options.forkUrl,
+        forkBlockNumber: options.forkBlockNumber,
+        host: '127.0.0.1',
+        port,
+    });
+    const rpcUrl = `http://127.0.0.1:${port}`;
+
+    const service = new MockTransactionService({ rpcUrl, port: options.servicePort });
+    try {
+        const safeAddress = await deployAnvilSafe(rpcUrl, {
+            owners: ownerKeys.map((key) => new ethers.Wallet(key).address),
+            threshold: options.threshold ?? 2,
+            deployerKey: ownerKeys[0],
+        });
+        const txServiceUrl = await service.start();
+
+        return {
+            rpcUrl,
+            safeAddress,
+            txServiceUrl,
+            ownerKeys,
+            service,
+            stop: async (): Promise<void> => {
+                await service.stop();
+                anvilManager.stop();
+            },
+        };
+    } catch (error) {
+        await service.stop();
+        anvilManager.stopOnError();
+        throw error;
+    }
+}
@@ -0,0 +1,856 @@
+import { generateTypedData } from '@safe-global/protocol-kit';
+import { EIP712TypedDataTx, SafeTransactionData } from '@safe-global/types-kit';
+import { ethers } from 'ethers';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { AppError, ErrorCode, SafeTransactionError, ValidationError } from '../safe/errors';
+import { logger } from '../safe/logger';
+
+const SAFE_ABI = [
+    'function getOwners() view returns (address[])',
+    'function getThreshold() view returns (uint256)',
+    'function nonce() view returns (uint256)',
+    'function VERSION() view returns (string)',
+    'function getModulesPaginated(address start, uint256 pageSize) view returns (address[] array, address next)',
+    'event ExecutionSuccess(bytes32 txHash, uint256 payment)',
+    'event ExecutionFailure(bytes32 txHash, uint256 payment)',
+];
+
+// Storage slots of the Safe singleton layout (v1.3.0 and v1.4.1)
+const SINGLETON_SLOT = '0x0';
+const FALLBACK_HANDLER_SLOT = ethers.id('fallback_manager.handler.address');
+const GUARD_SLOT = ethers.id('guard_manager.guard.address');
+const SENTINEL_MODULES = '0x0000000000000000000000000000000000000001';
+
+const DEFAULT_PAGE_SIZE = 100;
+const SERVICE_DOMAIN = { name: 'Safe Transaction Service', version: '1.0' };
+
+const safeInterface = new ethers.Interface(SAFE_ABI);
+
+type SignatureType = 'EOA' | 'ETH_SIGN';
+
+interface StoredConfirmation {
+    owner: string;
+    submissionDate: string;
+    signature: string;
+    signatureType: SignatureType;
+}
+
+interface StoredTransaction extends SafeTransactionData {
+    safe: string;
+    safeTxHash: string;
+    proposer: string;
+    proposedByDelegate: string | null;
+    origin: string | null;
+    submissionDate: string;
+    modified: string;
+    confirmations: StoredConfirmation[];
+}
+
+interface StoredDelegate {
+    safe: string | null;
+    delegate: string;
+    delegator: string;
+    label: string;
+}
+
+interface Execution {
+    transactionHash: string;
+    blockNumber: number;
+    executionDate: string;
+    executor: string | null;
+    isSuccessful: boolean;
+}
+
+interface SafeState {
+    owners: string[];
+    threshold: number;
+    nonce: number;
+    version: string;
+}
+
+interface ServiceRequest {
+    method: string;
+    url: URL;
+    body: Record<string, unknown>;
+}
+
+interface ServiceResponse {
+    status: number;
+    body?: unknown;
+}
+
+export interface MockTransactionServiceOptions {
+    /** RPC of the chain the Safes live on, usually an Anvil fork */
+    rpcUrl: string;
+    /** Port to listen on (default: a free port) */
+    port?: number;
+}
+
+/**
+ * In-memory stand-in for the Safe Transaction Service
+ *
+ * Serves the endpoints `SafeApiKit` uses in this project (Safe info, propose, confirm, delete,
+ * multisig/pending/all/module/incoming listings, delegates). Proposals and delegates are kept
+ * in memory; owners, threshold, nonces and executions are read from the chain, so transactions
+ * executed on the Anvil fork show up as executed. Signatures are checked like the hosted
+ * service does, so a flow that passes here has a good chance of passing against it.
+ */
+export class MockTransactionService {
+    private options: MockTransactionServiceOptions;
+    private provider: ethers.JsonRpcProvider;
+    private server: http.Server | null = null;
+    private chainId = 0n;
+    private startBlock = 0;
+    private transactions = new Map<string, StoredTransaction>();
+    private delegates: StoredDelegate[] = [];
+
+    constructor(options: MockTransactionServiceOptions) {
+        this.options = options;
+        this.provider = new ethers.JsonRpcProvider(options.rpcUrl);
+    }
+
+    /**
+     * Start listening and return the base URL to pass as `txServiceUrl`
+     */
+    async start(): Promise<string> {
+        const network = await this.provider.getNetwork();
+        this.chainId = network.chainId;
+        this.startBlock = await this.provider.getBlockNumber();
+
+        const server = http.createServer((req, res) => {
+            void this.handle(req, res);
+        });
+        await new Promise<void>((resolve, reject) => {
+            server.once('error', reject);
+            server.listen(this.options.port ?? 0, '127.0.0.1', () => resolve());
+        });
+        this.server = server;
+
+        logger.info('Mock Safe Transaction Service started', {
+            url: this.getUrl(),
+            chainId: this.chainId.toString(),
+        });
+        return this.getUrl();
+    }
+
+    /**
+     * Stop listening; stored proposals are discarded
+     */
+    async stop(): Promise<void> {
+        const server = this.server;
+        this.server = null;
+        this.provider.destroy();
+        if (server) {
+            await new Promise<void>((resolve) => server.close(() => resolve()));
+        }
+    }
+
+    /**
+     * Base URL of the service, including the `/api` prefix the API Kit expects
+     */
+    getUrl(): string {
+        if (!this.server) {
+            throw new AppError('Mock Safe Transaction Service is not running');
+        }
+        return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}/api`;
+    }
+
+    private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+        let response: ServiceResponse;
+        try {
+            const request = await readRequest(req);
+            response = await this.route(request);
+        } catch (error) {
+            const status = error instanceof AppError ? error.statusCode : 500;
+            response = { status, body: { detail: (error as Error).message } };
+            logger.debug('Mock Safe Transaction Service request failed', {
+                method: req.method,
+                url: req.url,
+                status,
+                error: (error as Error).message,
+            });
+        }
+
+        res.writeHead(response.status, { 'Content-Type': 'application/json' });
+        res.end(response.body === undefined ? undefined : JSON.stringify(response.body));
+    }
+
+    private async route(request: ServiceRequest): Promise<ServiceResponse> {
+        const { method } = request;
+        const path = request.url.pathname.replace(/^\/api/, '').replace(/\/?$/, '/');
+        let match: RegExpMatchArray | null;
+
+        if (method === 'GET' && path === '/v1/about/') {
+            return ok({
+                name: 'Safe Transaction Service (mock)',
+                version: '0.0.0',
+                api_version: 'v1',
+            });
+        }
+
+        if ((match = path.match(/^\/v[12]\/safes\/(0x[0-9a-fA-F]{40})\/(.*)$/))) {
+            return await this.routeSafe(request, ethers.getAddress(match[1]), match[2]);
+        }
+
+        if ((match = path.match(/^\/v[12]\/multisig-transactions\/(0x[0-9a-fA-F]{64})\/(.*)$/))) {
+            return await this.routeTransaction(request, match[1].toLowerCase(), match[2]);
+        }
+
+        if ((match = path.match(/^\/v2\/delegates\/(?:(0x[0-9a-fA-F]{40})\/)?$/))) {
+            return await this.routeDelegates(request, match[1]);
+        }
+
+        throw notFound();
+    }
+
+    private async routeSafe(
+        request: ServiceRequest,
+        safe: string,
+        resource: string,
+    ): Promise<ServiceResponse> {
+        if (request.method === 'GET' && resource === '') {
+            return ok(await this.getSafeInfo(safe));
+        }
+
+        if (resource === 'multisig-transactions/') {
+            if (request.method === 'POST') {
+                return await this.proposeTransaction(request, safe);
+            }
+            return ok(await this.listTransactions(request, safe, false));
+        }
+
+        if (request.method === 'GET' && resource === 'all-transactions/') {
+            return ok(await this.listTransactions(request, safe, true));
+        }
+
+        if (
+            request.method === 'GET' &&
+            (resource === 'module-transactions/' || resource === 'incoming-transfers/')
+        ) {
+            // Only multisig transactions go through the mock
+            return ok(paginate(request, []));
+        }
+
+        throw notFound();
+    }
+
+    private async routeDelegates(
+        request: ServiceRequest,
+        delegate?: string,
+    ): Promise<ServiceResponse> {
+        if (request.method === 'GET' && !delegate) {
+            return this.listDelegates(request);
+        }
+        if (request.method === 'POST' && !delegate) {
+            return await this.addDelegate(request);
+        }
+        if (request.method === 'DELETE' && delegate) {
+            return this.removeDelegate(request, ethers.getAddress(delegate));
+        }
+
+        throw notFound();
+    }
+
+    private async routeTransaction(
+        request: ServiceRequest,
+        safeTxHash: string,
+        resource: string,
+    ): Promise<ServiceResponse> {
+        const transaction = this.transactions.get(safeTxHash);
+        if (!transaction) {
+            throw notFound();
+        }
+
+        if (resource === '') {
+            if (request.method === 'GET') {
+                return ok(await this.toResponse(transaction));
+            }
+            if (request.method === 'DELETE') {
+                return await this.deleteTransaction(request, transaction);
+            }
+        }
+
+        if (resource === 'confirmations/') {
+            if (request.method === 'POST') {
+                return await this.confirmTransaction(request, transaction);
+            }
+            if (request.method === 'GET') {
+                return ok(paginate(request, transaction.confirmations));
+            }
+        }
+
+        throw notFound();
+    }
+
+    /*//////////////////////////////////////////////////////////////
+                              SAFES
+    //////////////////////////////////////////////////////////////*/
+
+    private async getSafeState(safe: string): Promise<SafeState> {
+        if ((await this.provider.getCode(safe)) === '0x') {
+            throw new SafeTransactionError(
+                `Safe=${safe} does not exist or it's still not indexed`,
+                ErrorCode.INVALID_SAFE_ADDRESS,
+            );
+        }
+
+        const contract = new ethers.Contract(safe, safeInterface, this.provider);
+        const [owners, threshold, nonce, version] = (await Promise.all([
+            contract.getOwners(),
+            contract.getThreshold(),
+            contract.nonce(),
+            contract.VERSION(),
+        ])) as [string[], bigint, bigint, string];
+
+        return {
+            owners: owners.map((owner) => ethers.getAddress(owner)),
+            threshold: Number(threshold),
+            nonce: Number(nonce),
+            version,
+        };
+    }
+
+    private async getSafeInfo(safe: string): Promise<Record<string, unknown>> {
+        const state = await this.getSafeState(safe);
+        const contract = new ethers.Contract(safe, safeInterface, this.provider);
+        const [modules] = (await contract.getModulesPaginated(SENTINEL_MODULES, 100)) as [string[]];
+
+        return {
+            address: safe,
+            nonce: state.nonce.toString(),
+            threshold: state.threshold,
+            owners: state.owners,
+            singleton: await this.readAddressSlot(safe, SINGLETON_SLOT),
+            modules,
+            fallbackHandler: await this.readAddressSlot(safe, FALLBACK_HANDLER_SLOT),
+            guard: await this.readAddressSlot(safe, GUARD_SLOT),
+            version: state.version,
+        };
+    }
+
+    private async readAddressSlot(safe: string, slot: string): Promise<string> {
+        const value = await this.provider.getStorage(safe, slot);
+        return ethers.getAddress(ethers.dataSlice(value, 12));
+    }
+
+    /*//////////////////////////////////////////////////////////////
+                           TRANSACTIONS
+    //////////////////////////////////////////////////////////////*/
+
+    private async proposeTransaction(
+        request: ServiceRequest,
+        safe: string,
+    ): Promise<ServiceResponse> {
+        const { body } = request;
+        const state = await this.getSafeState(safe);
+        const data = parseTransactionData(body);
+
+        const safeTxHash = this.checkProposal(safe, state, data, body);
+
+        const { sender, delegator, confirmation } = this.checkSender(safe, state, safeTxHash, body);
+
+        const now = new Date().toISOString();
+        const transaction = this.transactions.get(safeTxHash) ?? {
+            ...data,
+            safe,
+            safeTxHash,
+            proposer: delegator ?? sender,
+            proposedByDelegate: delegator ? sender : null,
+            origin: typeof body.origin === 'string' ? body.origin : null,
+            submissionDate: now,
+            modified: now,
+            confirmations: [],
+        };
+        if (confirmation && state.owners.includes(confirmation.owner)) {
+            this.addConfirmation(transaction, confirmation);
+        }
+        this.transactions.set(safeTxHash, transaction);
+
+        return { status: 201 };
+    }
+
+    /**
+     * Check a proposal's hash and nonce, returning its safeTxHash
+     */
+    private checkProposal(
+        safe: string,
+        state: SafeState,
+        data: SafeTransactionData,
+        body: Record<string, unknown>,
+    ): string {
+        const safeTxHash = this.hashTransaction(safe, state.version, data);
+        const providedHash = requireString(body, 'contractTransactionHash').toLowerCase();
+        if (safeTxHash !== providedHash) {
+            throw new ValidationError(
+                `Contract-transaction-hash=${safeTxHash} does not match provided contract-tx-hash=${providedHash}`,
+                ErrorCode.SAFE_TX_HASH_MISMATCH,
+            );
+        }
+
+        if (!Number.isInteger(data.nonce) || data.nonce < state.nonce) {
+            throw new SafeTransactionError(
+                `Nonce=${String(body.nonce)} already executed`,
+                ErrorCode.NONCE_CONFLICT,
+            );
+        }
+
+        return safeTxHash;
+    }
+
+    /**
+     * Check that the proposal comes from an owner or a delegate, and recover its signature
+     */
+    private checkSender(
+        safe: string,
+        state: SafeState,
+        safeTxHash: string,
+        body: Record<string, unknown>,
+    ): { sender: string; delegator?: string; confirmation?: StoredConfirmation } {
+        const sender = ethers.getAddress(requireString(body, 'sender'));
+        const delegator = this.findDelegator(safe, sender, state.owners);
+        if (!state.owners.includes(sender) && !delegator) {
+            throw new SafeTransactionError(
+                `User=${sender} is not an owner or delegate`,
+                ErrorCode.SIGNER_NOT_OWNER,
+            );
+        }
+
+        const confirmation = body.signature
+            ? this.recoverConfirmation(safeTxHash, requireString(body, 'signature'))
+            : undefined;
+        if (confirmation && confirmation.owner !== sender) {
+            throw new ValidationError(
+                `Signature does not match sender=${sender}`,
+                ErrorCode.INVALID_TRANSACTION_DATA,
+            );
+        }
+
+        return { sender, delegator, confirmation };
+    }
+
+    private async confirmTransaction(
+        request: ServiceRequest,
+        transaction: StoredTransaction,
+    ): Promise<ServiceResponse> {
+        const state = await this.getSafeState(transaction.safe);
+        if ((await this.getExecutions(transaction.safe)).has(transaction.safeTxHash)) {
+            throw new SafeTransactionError(
+                `Transaction with safe-tx-hash=${transaction.safeTxHash} was already executed`,
+                ErrorCode.TRANSACTION_ALREADY_EXECUTED,
+            );
+        }
+
+        const confirmation = this.recoverConfirmation(
+            transaction.safeTxHash,
+            requireString(request.body, 'signature'),
+        );
+        if (!state.owners.includes(confirmation.owner)) {
+            throw new SafeTransactionError(
+                `Signer=${confirmation.owner} is not an owner`,
+                ErrorCode.SIGNER_NOT_OWNER,
+            );
+        }
+
+        this.addConfirmation(transaction, confirmation);
+        return { status: 201, body: { signature: confirmation.signature } };
+    }
+
+    private async deleteTransaction(
+        request: ServiceRequest,
+        transaction: StoredTransaction,
+    ): Promise<ServiceResponse> {
+        if ((await this.getExecutions(transaction.safe)).has(transaction.safeTxHash)) {
+            throw new SafeTransactionError(
+                `Executed transactions cannot be deleted`,
+                ErrorCode.TRANSACTION_ALREADY_EXECUTED,
+            );
+        }
+
+        const signature = requireString(request.body, 'signature');
+        const signers = this.recoverTotpSigners((totp) =>
+            ethers.verifyTypedData(
+                {
+                    ...SERVICE_DOMAIN,
+                    chainId: this.chainId,
+                    verifyingContract: transaction.safe,
+                },
+                { DeleteRequest: DELETE_REQUEST_FIELDS },
+                { safeTxHash: transaction.safeTxHash, totp },
+                signature,
+            ),
+        );
+
+        const allowed = [transaction.proposer, transaction.proposedByDelegate];
+        if (!signers.some((signer) => allowed.includes(signer))) {
+            throw new SafeTransactionError(
+                'Provided signer is not the proposer or the delegate user who proposed the transaction',
+                ErrorCode.TRANSACTION_NOT_DELETABLE,
+            );
+        }
+
+        this.transactions.delete(transaction.safeTxHash);
+        return { status: 204 };
+    }
+
+    private async listTransactions(
+        request: ServiceRequest,
+        safe: string,
+        withTxType: boolean,
+    ): Promise<Record<string, unknown>> {
+        const { searchParams } = request.url;
+        const stored = [...this.transactions.values()].filter((tx) => tx.safe === safe);
+        const responses = await Promise.all(stored.map((tx) => this.toResponse(tx)));
+
+        const executed = searchParams.get('executed');
+        const nonceFrom = searchParams.get('nonce__gte');
+        const filtered = responses.filter(
+            (tx) =>
+                (withTxType || executed === null || String(tx.isExecuted) === executed) &&
+                (nonceFrom === null || Number(tx.nonce) >= Number(nonceFrom)),
+        );
+
+        const ascending = searchParams.get('ordering') === 'nonce';
+        filtered.sort(
+            (a, b) =>
+                (ascending ? 1 : -1) * (Number(a.nonce) - Number(b.nonce)) ||
+                b.submissionDate.localeCompare(a.submissionDate),
+        );
+
+        return paginate(
+            request,
+            withTxType
+                ? filtered.map((tx) => ({ ...tx, txType: 'MULTISIG_TRANSACTION' }))
+                : filtered,
+        );
+    }
+
+    private async toResponse(
+        transaction: StoredTransaction,
+    ): Promise<Record<string, unknown> & { nonce: string; submissionDate: string }> {
+        const state = await this.getSafeState(transaction.safe);
+        const execution = (await this.getExecutions(transaction.safe)).get(transaction.safeTxHash);
+        const { confirmations, data, nonce, ...fields } = transaction;
+
+        return {
+            ...fields,
+            data: data === '0x' ? null : data,
+            nonce: nonce.toString(),
+            executionDate: execution?.executionDate ?? null,
+            blockNumber: execution?.blockNumber ?? null,
+            transactionHash: execution?.transactionHash ?? null,
+            executor: execution?.executor ?? null,
+            isExecuted: !!execution,
+            isSuccessful: execution?.isSuccessful ?? null,
+            ethGasPrice: null,
+            maxFeePerGas: null,
+            maxPriorityFeePerGas: null,
+            gasUsed: null,
+            fee: null,
+            dataDecoded: null,
+            confirmationsRequired: state.threshold,
+            confirmations,
+            trusted: true,
+            signatures: null,
+        };
+    }
+
+    /**
+     * Executions of the Safe since the service started, keyed by safeTxHash
+     */
+    private async getExecutions(safe: string): Promise<Map<string, Execution>> {
+        const success = safeInterface.getEvent('ExecutionSuccess')?.topicHash as string;
+        const failure = safeInterface.getEvent('ExecutionFailure')?.topicHash as string;
+        const logs = await this.provider.getLogs({
+            address: safe,
+            fromBlock: this.startBlock,
+            topics: [[success, failure]],
+        });
+
+        const executions = new Map<string, Execution>();
+        for (const log of logs) {
+            const block = await this.provider.getBlock(log.blockNumber);
+            const tx = await this.provider.getTransaction(log.transactionHash);
+            executions.set(ethers.dataSlice(log.data, 0, 32).toLowerCase(), {
+                transactionHash: log.transactionHash,
+                blockNumber: log.blockNumber,
+                executionDate: new Date(Number(block?.timestamp ?? 0) * 1000).toISOString(),
+                executor: tx?.from ?? null,
+                isSuccessful: log.topics[0] === success,
+            });
+        }
+
+        return executions;
+    }
+
+    private hashTransaction(safe: string, safeVersion: string, data: SafeTransactionData): string {
+        const typedData = generateTypedData({
+            safeAddress: safe,
+            safeVersion,
+            chainId: this.chainId,
+            data,
+        }) as EIP712TypedDataTx;
+        return ethers.TypedDataEncoder.hash(
+            typedData.domain as ethers.TypedDataDomain,
+            { SafeTx: typedData.types.SafeTx },
+            typedData.message,
+        ).toLowerCase();
+    }
+
+    /**
+     * Recover the owner behind an EIP-712 (v = 27/28) or eth_sign (v = 31/32) signature
+     */
+    private recoverConfirmation(safeTxHash: string, signature: string): StoredConfirmation {
+        if (ethers.dataLength(signature) !== 65) {
+            throw new ValidationError(
+                'Only single EOA signatures are supported',
+                ErrorCode.INVALID_TRANSACTION_DATA,
+            );
+        }
+
+        const v = ethers.getBytes(signature)[64];
+        let owner: string;
+        let signatureType: SignatureType;
+        if (v === 27 || v === 28) {
+            owner = ethers.recoverAddress(safeTxHash, signature);
+            signatureType = 'EOA';
+        } else if (v === 31 || v === 32) {
+            const adjusted = ethers.concat([ethers.dataSlice(signature, 0, 64), toByte(v - 4)]);
+            owner = ethers.recoverAddress(
+                ethers.hashMessage(ethers.getBytes(safeTxHash)),
+                adjusted,
+            );
+            signatureType = 'ETH_SIGN';
+        } else {
+            throw new ValidationError(
+                `Unsupported signature type (v=${v})`,
+                ErrorCode.INVALID_TRANSACTION_DATA,
+            );
+        }
+
+        return { owner, signature, signatureType, submissionDate: new Date().toISOString() };
+    }
+
+    private addConfirmation(
+        transaction: StoredTransaction,
+        confirmation: StoredConfirmation,
+    ): void {
+        if (transaction.confirmations.some((existing) => existing.owner === confirmation.owner)) {
+            return;
+        }
+        transaction.confirmations.push(confirmation);
+        transaction.modified = confirmation.submissionDate;
+    }
+
+    /*//////////////////////////////////////////////////////////////
+                             DELEGATES
+    //////////////////////////////////////////////////////////////*/
+
+    private listDelegates(request: ServiceRequest): ServiceResponse {
+        const { searchParams } = request.url;
+        const matches = (value: string | null, filter: string | null): boolean =>
+            filter === null || value?.toLowerCase() === filter.toLowerCase();
+
+        const delegates = this.delegates.filter(
+            (entry) =>
+                matches(entry.safe, searchParams.get('safe')) &&
+                matches(entry.delegate, searchParams.get('delegate')) &&
+                matches(entry.delegator, searchParams.get('delegator')) &&
+                matches(entry.label, searchParams.get('label')),
+        );
+
+        return ok(
+            paginate(
+                request,
+                delegates.map((entry) => ({ ...entry, expiryDate: null })),
+            ),
+        );
+    }
+
+    private async addDelegate(request: ServiceRequest): Promise<ServiceResponse> {
+        const { body } = request;
+        const delegate = ethers.getAddress(requireString(body, 'delegate'));
+        const delegator = ethers.getAddress(requireString(body, 'delegator'));
+        const safe = typeof body.safe === 'string' ? ethers.getAddress(body.safe) : null;
+
+        this.assertDelegatorSignature(delegate, delegator, requireString(body, 'signature'));
+        if (safe && !(await this.getSafeState(safe)).owners.includes(delegator)) {
+            throw new SafeTransactionError(
+                'Signing owner is not an owner of the Safe',
+                ErrorCode.SIGNER_NOT_OWNER,
+            );
+        }
+
+        const entry = { safe, delegate, delegator, label: optionalString(body, 'label', '') };
+        this.delegates = [
+            ...this.delegates.filter(
+                (existing) =>
+                    !(
+                        existing.safe === safe &&
+                        existing.delegate === delegate &&
+                        existing.delegator === delegator
+                    ),
+            ),
+            entry,
+        ];
+
+        return { status: 201, body: { ...entry, expiryDate: null } };
+    }
+
+    private removeDelegate(request: ServiceRequest, delegate: string): ServiceResponse {
+        const delegator = ethers.getAddress(requireString(request.body, 'delegator'));
+        this.assertDelegatorSignature(
+            delegate,
+            delegator,
+            requireString(request.body, 'signature'),
+        );
+
+        const remaining = this.delegates.filter(
+            (entry) => !(entry.delegate === delegate && entry.delegator === delegator),
+        );
+        if (remaining.length === this.delegates.length) {
+            throw notFound();
+        }
+
+        this.delegates = remaining;
+        return { status: 204 };
+    }
+
+    private assertDelegatorSignature(delegate: string, delegator: string, signature: string): void {
+        const signers = this.recoverTotpSigners((totp) =>
+            ethers.verifyTypedData(
+                { ...SERVICE_DOMAIN, chainId: this.chainId },
+                { Delegate: DELEGATE_FIELDS },
+                { delegateAddress: delegate, totp },
+                signature,
+            ),
+        );
+
+        if (!signers.includes(delegator)) {
+            throw new ValidationError(
+                `Signature does not match delegator=${delegator}`,
+                ErrorCode.INVALID_TRANSACTION_DATA,
+            );
+        }
+    }
+
+    /**
+     * Owner of a delegate that may propose to the Safe
+     */
+    private findDelegator(safe: string, delegate: string, owners: string[]): string | undefined {
+        return this.delegates.find(
+            (entry) =>
+                entry.delegate === delegate &&
+                (entry.safe === null || entry.safe === safe) &&
+                owners.includes(entry.delegator),
+        )?.delegator;
+    }
+
+    /**
+     * Recover the signers of a signature over the current and the previous time-based
+     * one-time password, both of which the hosted service accepts
+     */
+    private recoverTotpSigners(recover: (totp: number) => string): string[] {
+        const totp = Math.floor(Date.now() / 1000 / 3600);
+        return [recover(totp), recover(totp - 1)];
+    }
+}
+
+const DELETE_REQUEST_FIELDS = [
+    { name: 'safeTxHash', type: 'bytes32' },
+    { name: 'totp', type: 'uint256' },
+];
+
+const DELEGATE_FIELDS = [
+    { name: 'delegateAddress', type: 'address' },
+    { name: 'totp', type: 'uint256' },
+];
+
+async function readRequest(req: http.IncomingMessage): Promise<ServiceRequest> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+        chunks.push(chunk as Buffer);
+    }
+
+    const raw = Buffer.concat(chunks).toString('utf8');
+    let body: Record<string, unknown> = {};
+    if (raw) {
+        try {
+            body = JSON.parse(raw) as Record<string, unknown>;
+        } catch {
+            throw new ValidationError('Malformed JSON body', ErrorCode.INVALID_TRANSACTION_DATA);
+        }
+    }
+
+    return {
+        method: req.method ?? 'GET',
+        url: new URL(req.url ?? '/', `http://${req.headers.host ?? '127.0.0.1'}`),
+        body,
+    };
+}
+
+function paginate<T>(request: ServiceRequest, items: T[]): Record<string, unknown> {
+    const { searchParams } = request.url;
+    const limit = Number(searchParams.get('limit') ?? DEFAULT_PAGE_SIZE);
+    const offset = Number(searchParams.get('offset') ?? 0);
+
+    const pageUrl = (pageOffset: number): string => {
+        const url = new URL(request.url);
+        url.searchParams.set('limit', limit.toString());
+        url.searchParams.set('offset', pageOffset.toString());
+        return url.toString();
+    };
+
+    return {
+        count: items.length,
+        next: offset + limit < items.length ? pageUrl(offset + limit) : null,
+        previous: offset > 0 ? pageUrl(Math.max(0, offset - limit)) : null,
+        results: items.slice(offset, offset + limit),
+    };
+}
+
+function ok(body: unknown): ServiceResponse {
+    return { status: 200, body };
+}
+
+function notFound(): AppError {
+    return new AppError('Not found.', ErrorCode.UNKNOWN_ERROR, 404);
+}
+
+function requireString(body: Record<string, unknown>, field: string): string {
+    const value = body[field];
+    if (typeof value !== 'string' || value === '') {
+        throw new ValidationError(`${field} is required`, ErrorCode.INVALID_TRANSACTION_DATA);
+    }
+    return value;
+}
+
+function optionalString(body: Record<string, unknown>, field: string, fallback: string): string {
+    const value = body[field];
+    return typeof value === 'string' || typeof value === 'number' ? String(value) : fallback;
+}
+
+/**
+ * Read the Safe transaction fields of a proposal, defaulting them like the hosted service
+ */
+function parseTransactionData(body: Record<string, unknown>): SafeTransactionData {
+    const data = optionalString(body, 'data', '0x');
+    return {
+        to: ethers.getAddress(requireString(body, 'to')),
+        value: optionalString(body, 'value', '0'),
+        data: data === '' ? '0x' : data,
+        operation: Number(optionalString(body, 'operation', '0')),
+        safeTxGas: optionalString(body, 'safeTxGas', '0'),
+        baseGas: optionalString(body, 'baseGas', '0'),
+        gasPrice: optionalString(body, 'gasPrice', '0'),
+        gasToken: ethers.getAddress(optionalString(body, 'gasToken', ethers.ZeroAddress)),
+        refundReceiver: ethers.getAddress(
+            optionalString(body, 'refundReceiver', ethers.ZeroAddress),
+        ),
+        nonce: Number(optionalString(body, 'nonce', '')),
+    };
+}
+
+function toByte(value: number): string {
+    return ethers.toBeHex(value, 1);
+}